@@ -0,0 +1,86 @@
+import iter, { Iter } from "./iter.js";
+import { Opt, Some, None } from "./option.js";
+import { compare, type Comparator } from "./cmp.js";
+
+/** A priority queue, `pop` returns the largest value by the `Comparator` */
+export class BinaryHeap<T> implements Iterable<T> {
+    /** `data[i]` is never less than `data[2i + 1]` and `data[2i + 2]` */
+    data: T[];
+    comparator: Comparator<T>;
+
+    constructor();
+    constructor(values?: Iterable<T> | null, comparator?: Comparator<T>);
+    constructor(
+        values?: Iterable<T> | null,
+        comparator: Comparator<T> = compare,
+    ) {
+        this.data = [];
+        this.comparator = comparator;
+        if (values) for (const x of values) this.push(x);
+    }
+
+    get size(): number {
+        return this.data.length;
+    }
+
+    private less(i: number, j: number): boolean {
+        return this.comparator(this.data[i]!, this.data[j]!) < 0;
+    }
+    private swap(i: number, j: number) {
+        [this.data[i], this.data[j]] = [this.data[j]!, this.data[i]!];
+    }
+
+    push(value: T) {
+        this.data.push(value);
+        for (let i = this.data.length - 1; i > 0; ) {
+            const parent = (i - 1) >> 1;
+            if (!this.less(parent, i)) break;
+            this.swap(parent, i);
+            i = parent;
+        }
+    }
+    pop(): Opt<T> {
+        if (this.data.length === 0) return None;
+        const top = this.data[0]!;
+        const last = this.data.pop()!;
+        if (this.data.length === 0) return Some(top);
+
+        this.data[0] = last;
+        for (let i = 0; ; ) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let max = i;
+            if (left < this.data.length && this.less(max, left)) max = left;
+            if (right < this.data.length && this.less(max, right)) max = right;
+            if (max === i) break;
+            this.swap(i, max);
+            i = max;
+        }
+        return Some(top);
+    }
+    /** The largest value */
+    peek(): Opt<T> {
+        return this.data.length === 0 ? None : Some(this.data[0]!);
+    }
+    clear() {
+        this.data = [];
+    }
+
+    /** In no particular order */
+    values(): Iter<T> {
+        return iter(this.data);
+    }
+    /** Empties the heap right away, the values come in no particular order */
+    drain(): Iter<T> {
+        const data = this.data;
+        this.clear();
+        return iter(data);
+    }
+    /** Empties the heap, the values come from smallest to largest */
+    intoSorted(): Iter<T> {
+        return iter(this.drain().collect().sort(this.comparator));
+    }
+    [Symbol.iterator](): Iter<T> {
+        return this.values();
+    }
+}
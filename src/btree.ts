@@ -0,0 +1,519 @@
+import { Iter } from "./iter.js";
+import { Opt, Some, None } from "./option.js";
+import { compare, type Comparator } from "./cmp.js";
+
+/** Minimum degree: nodes hold `B - 1` to `2B - 1` keys, the root may hold fewer */
+const B = 6;
+const MAX = 2 * B - 1;
+
+class BTreeNode<K, V> {
+    keys: K[];
+    values: V[];
+    /** Empty in leaves, otherwise `children[i]` holds the keys before `keys[i]` */
+    children: BTreeNode<K, V>[];
+
+    constructor(keys: K[], values: V[], children: BTreeNode<K, V>[]) {
+        this.keys = keys;
+        this.values = values;
+        this.children = children;
+    }
+
+    get leaf(): boolean {
+        return this.children.length === 0;
+    }
+}
+
+/** The index of the first key of `node` after `key`, or not before it unless `after` */
+function search<K>(
+    node: BTreeNode<K, unknown>,
+    key: K,
+    cmp: Comparator<K>,
+    after: boolean = false,
+): number {
+    let lo = 0;
+    let hi = node.keys.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        const c = cmp(node.keys[mid]!, key);
+        if (c < 0 || (after && c === 0)) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+function found<K>(
+    node: BTreeNode<K, unknown>,
+    i: number,
+    key: K,
+    cmp: Comparator<K>,
+): boolean {
+    return i < node.keys.length && cmp(node.keys[i]!, key) === 0;
+}
+
+/** Splits the full `parent.children[i]` around its median key */
+function splitChild<K, V>(parent: BTreeNode<K, V>, i: number) {
+    const child = parent.children[i]!;
+    const right = new BTreeNode(
+        child.keys.splice(B),
+        child.values.splice(B),
+        child.leaf ? [] : child.children.splice(B),
+    );
+    parent.keys.splice(i, 0, child.keys.pop()!);
+    parent.values.splice(i, 0, child.values.pop()!);
+    parent.children.splice(i + 1, 0, right);
+}
+
+/** Merges `node.children[i + 1]` and `node.keys[i]` into `node.children[i]` */
+function merge<K, V>(node: BTreeNode<K, V>, i: number) {
+    const left = node.children[i]!;
+    const [right] = node.children.splice(i + 1, 1);
+    left.keys.push(...node.keys.splice(i, 1), ...right!.keys);
+    left.values.push(...node.values.splice(i, 1), ...right!.values);
+    left.children.push(...right!.children);
+}
+
+/**
+ * Makes sure `node.children[i]` has at least `B` keys, so a key can be
+ * removed below it, and returns the child that now covers its keys
+ */
+function ensure<K, V>(node: BTreeNode<K, V>, i: number): BTreeNode<K, V> {
+    const child = node.children[i]!;
+    if (child.keys.length >= B) return child;
+
+    const left = node.children[i - 1];
+    const right = node.children[i + 1];
+    if (left !== undefined && left.keys.length >= B) {
+        child.keys.unshift(node.keys[i - 1]!);
+        child.values.unshift(node.values[i - 1]!);
+        node.keys[i - 1] = left.keys.pop()!;
+        node.values[i - 1] = left.values.pop()!;
+        if (!left.leaf) child.children.unshift(left.children.pop()!);
+        return child;
+    } else if (right !== undefined && right.keys.length >= B) {
+        child.keys.push(node.keys[i]!);
+        child.values.push(node.values[i]!);
+        node.keys[i] = right.keys.shift()!;
+        node.values[i] = right.values.shift()!;
+        if (!right.leaf) child.children.push(right.children.shift()!);
+        return child;
+    } else if (right !== undefined) {
+        merge(node, i);
+        return child;
+    } else {
+        merge(node, i - 1);
+        return left!;
+    }
+}
+
+function removeFirst<K, V>(node: BTreeNode<K, V>): [K, V] {
+    while (!node.leaf) node = ensure(node, 0);
+    return [node.keys.shift()!, node.values.shift()!];
+}
+
+function removeLast<K, V>(node: BTreeNode<K, V>): [K, V] {
+    while (!node.leaf) node = ensure(node, node.children.length - 1);
+    return [node.keys.pop()!, node.values.pop()!];
+}
+
+type Bound<K> = { key: K; inclusive: boolean };
+
+/** `[node, i]`, the front emits `keys[i]` next and the back `keys[i - 1]` */
+type Frame<K, V> = [BTreeNode<K, V>, number];
+
+class BTreeIter<K, V, U> extends Iter<U> {
+    front: Frame<K, V>[];
+    back: Frame<K, V>[];
+    /** Narrowed to the last key emitted by the other end, so the ends don't cross */
+    lo: Bound<K> | undefined;
+    hi: Bound<K> | undefined;
+    comparator: Comparator<K>;
+    f: (key: K, value: V) => U;
+
+    constructor(
+        root: BTreeNode<K, V>,
+        lo: Bound<K> | undefined,
+        hi: Bound<K> | undefined,
+        cmp: Comparator<K>,
+        f: (key: K, value: V) => U,
+    ) {
+        super();
+        this.front = [];
+        this.back = [];
+        this.lo = lo;
+        this.hi = hi;
+        this.comparator = cmp;
+        this.f = f;
+
+        for (let node = root; ; node = node.children[this.front.at(-1)![1]]!) {
+            const i = lo ? search(node, lo.key, cmp, !lo.inclusive) : 0;
+            this.front.push([node, i]);
+            if (node.leaf) break;
+        }
+        for (let node = root; ; node = node.children[this.back.at(-1)![1]]!) {
+            const i = hi
+                ? search(node, hi.key, cmp, hi.inclusive)
+                : node.keys.length;
+            this.back.push([node, i]);
+            if (node.leaf) break;
+        }
+    }
+
+    [Symbol.iterator](): Iterator<U, unknown> {
+        return this;
+    }
+    next(): IteratorResult<U, unknown> {
+        while (this.front.length !== 0) {
+            const frame = this.front.at(-1)!;
+            const [node, i] = frame;
+            if (i >= node.keys.length) {
+                this.front.pop();
+                continue;
+            }
+
+            const key = node.keys[i]!;
+            const c = this.hi ? this.comparator(key, this.hi.key) : -1;
+            if (c > 0 || (c === 0 && !this.hi!.inclusive)) break;
+
+            frame[1]++;
+            let child = node.children[i + 1];
+            while (child !== undefined) {
+                this.front.push([child, 0]);
+                child = child.children[0];
+            }
+            this.lo = { key, inclusive: false };
+            return { done: false, value: this.f(key, node.values[i]!) };
+        }
+        this.front = this.back = [];
+        return { done: true, value: undefined };
+    }
+    /** Takes from the end */
+    nextBack(): IteratorResult<U, unknown> {
+        while (this.back.length !== 0) {
+            const frame = this.back.at(-1)!;
+            const [node, i] = frame;
+            if (i === 0) {
+                this.back.pop();
+                continue;
+            }
+
+            const key = node.keys[i - 1]!;
+            const c = this.lo ? this.comparator(key, this.lo.key) : 1;
+            if (c < 0 || (c === 0 && !this.lo!.inclusive)) break;
+
+            frame[1]--;
+            let child = node.children[i - 1];
+            while (child !== undefined) {
+                this.back.push([child, child.keys.length]);
+                child = child.children[child.keys.length];
+            }
+            this.hi = { key, inclusive: false };
+            return { done: false, value: this.f(key, node.values[i - 1]!) };
+        }
+        this.front = this.back = [];
+        return { done: true, value: undefined };
+    }
+    return: undefined;
+    throw: undefined;
+}
+
+/** A sorted map backed by a B-tree, keys are ordered by a `Comparator` */
+export class BTreeMap<K, V> implements Iterable<[K, V]> {
+    root: BTreeNode<K, V>;
+    comparator: Comparator<K>;
+    size: number;
+
+    constructor();
+    constructor(entries?: Iterable<[K, V]> | null, comparator?: Comparator<K>);
+    constructor(
+        entries?: Iterable<[K, V]> | null,
+        comparator: Comparator<K> = compare,
+    ) {
+        this.root = new BTreeNode([], [], []);
+        this.comparator = comparator;
+        this.size = 0;
+        if (entries) for (const [k, v] of entries) this.insert(k, v);
+    }
+
+    has(key: K): boolean {
+        return this.get(key).some;
+    }
+    get(key: K): Opt<V> {
+        for (let node = this.root; ; ) {
+            const i = search(node, key, this.comparator);
+            if (found(node, i, key, this.comparator))
+                return Some(node.values[i]!);
+            if (node.leaf) return None;
+            node = node.children[i]!;
+        }
+    }
+    /** Returns the previous value, the stored key isn't replaced */
+    insert(key: K, value: V): Opt<V> {
+        if (this.root.keys.length === MAX) {
+            this.root = new BTreeNode([], [], [this.root]);
+            splitChild(this.root, 0);
+        }
+        for (let node = this.root; ; ) {
+            let i = search(node, key, this.comparator);
+            if (found(node, i, key, this.comparator)) {
+                const old = node.values[i]!;
+                node.values[i] = value;
+                return Some(old);
+            }
+            if (node.leaf) {
+                node.keys.splice(i, 0, key);
+                node.values.splice(i, 0, value);
+                this.size++;
+                return None;
+            }
+            if (node.children[i]!.keys.length === MAX) {
+                splitChild(node, i);
+                if (this.comparator(node.keys[i]!, key) < 0) i++;
+                else continue;
+            }
+            node = node.children[i]!;
+        }
+    }
+    remove(key: K): Opt<V> {
+        return this.removeEntry(key).map(([, v]) => v);
+    }
+    /** Like `remove`, but also returns the stored key */
+    removeEntry(key: K): Opt<[K, V]> {
+        const res = this.removeFrom(key);
+        if (res.some) this.size--;
+        if (this.root.keys.length === 0 && !this.root.leaf) {
+            this.root = this.root.children[0]!;
+        }
+        return res;
+    }
+    private removeFrom(key: K): Opt<[K, V]> {
+        for (let node = this.root; ; ) {
+            const i = search(node, key, this.comparator);
+            const hit = found(node, i, key, this.comparator);
+            if (node.leaf) {
+                if (!hit) return None;
+                return Some([
+                    node.keys.splice(i, 1)[0]!,
+                    node.values.splice(i, 1)[0]!,
+                ]);
+            } else if (!hit) {
+                node = ensure(node, i);
+                continue;
+            }
+
+            // Replace the key with its neighbour from a child that can spare one
+            const entry: [K, V] = [node.keys[i]!, node.values[i]!];
+            const left = node.children[i]!;
+            const right = node.children[i + 1]!;
+            if (left.keys.length >= B) {
+                [node.keys[i], node.values[i]] = removeLast(left);
+            } else if (right.keys.length >= B) {
+                [node.keys[i], node.values[i]] = removeFirst(right);
+            } else {
+                merge(node, i);
+                node = left;
+                continue;
+            }
+            return Some(entry);
+        }
+    }
+    clear() {
+        this.root = new BTreeNode([], [], []);
+        this.size = 0;
+    }
+
+    first(): Opt<[K, V]> {
+        let node = this.root;
+        while (!node.leaf) node = node.children[0]!;
+        return node.keys.length === 0
+            ? None
+            : Some([node.keys[0]!, node.values[0]!]);
+    }
+    last(): Opt<[K, V]> {
+        let node = this.root;
+        while (!node.leaf) node = node.children.at(-1)!;
+        return node.keys.length === 0
+            ? None
+            : Some([node.keys.at(-1)!, node.values.at(-1)!]);
+    }
+    popFirst(): Opt<[K, V]> {
+        return this.first().and(([k]) => this.removeEntry(k));
+    }
+    popLast(): Opt<[K, V]> {
+        return this.last().and(([k]) => this.removeEntry(k));
+    }
+
+    /** The entries with keys in `[lo, hi)`, iterable from both ends */
+    range(lo: K, hi: K): BTreeIter<K, V, [K, V]> {
+        return this.iter(
+            { key: lo, inclusive: true },
+            { key: hi, inclusive: false },
+            (k, v) => [k, v],
+        );
+    }
+    /** The entries with keys in `[lo, hi]`, iterable from both ends */
+    rangeInclusive(lo: K, hi: K): BTreeIter<K, V, [K, V]> {
+        return this.iter(
+            { key: lo, inclusive: true },
+            { key: hi, inclusive: true },
+            (k, v) => [k, v],
+        );
+    }
+    /** INTERNAL DETAIL */
+    iter<U>(
+        lo: Bound<K> | undefined,
+        hi: Bound<K> | undefined,
+        f: (key: K, value: V) => U,
+    ): BTreeIter<K, V, U> {
+        return new BTreeIter(this.root, lo, hi, this.comparator, f);
+    }
+
+    entries(): BTreeIter<K, V, [K, V]> {
+        return this.iter(undefined, undefined, (k, v) => [k, v]);
+    }
+    keys(): BTreeIter<K, V, K> {
+        return this.iter(undefined, undefined, k => k);
+    }
+    values(): BTreeIter<K, V, V> {
+        return this.iter(undefined, undefined, (_, v) => v);
+    }
+    [Symbol.iterator](): Iter<[K, V]> {
+        return this.entries();
+    }
+}
+
+/** A sorted set backed by a B-tree, values are ordered by a `Comparator` */
+export class BTreeSet<T> implements Iterable<T> {
+    map: BTreeMap<T, undefined>;
+
+    constructor();
+    constructor(values?: Iterable<T> | null, comparator?: Comparator<T>);
+    constructor(
+        values?: Iterable<T> | null,
+        comparator: Comparator<T> = compare,
+    ) {
+        this.map = new BTreeMap(null, comparator);
+        if (values) for (const x of values) this.insert(x);
+    }
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    has(value: T): boolean {
+        return this.map.has(value);
+    }
+    /** Returns whether `value` wasn't in the set, an equal stored value is kept */
+    insert(value: T): boolean {
+        if (this.map.has(value)) return false;
+        this.map.insert(value, undefined);
+        return true;
+    }
+    /** Returns whether `value` was in the set */
+    remove(value: T): boolean {
+        return this.map.remove(value).some;
+    }
+    clear() {
+        this.map.clear();
+    }
+
+    first(): Opt<T> {
+        return this.map.first().map(([k]) => k);
+    }
+    last(): Opt<T> {
+        return this.map.last().map(([k]) => k);
+    }
+    popFirst(): Opt<T> {
+        return this.map.popFirst().map(([k]) => k);
+    }
+    popLast(): Opt<T> {
+        return this.map.popLast().map(([k]) => k);
+    }
+
+    /** The values in `[lo, hi)`, iterable from both ends */
+    range(lo: T, hi: T): BTreeIter<T, undefined, T> {
+        return this.map.iter(
+            { key: lo, inclusive: true },
+            { key: hi, inclusive: false },
+            k => k,
+        );
+    }
+    /** The values in `[lo, hi]`, iterable from both ends */
+    rangeInclusive(lo: T, hi: T): BTreeIter<T, undefined, T> {
+        return this.map.iter(
+            { key: lo, inclusive: true },
+            { key: hi, inclusive: true },
+            k => k,
+        );
+    }
+    values(): BTreeIter<T, undefined, T> {
+        return this.map.keys();
+    }
+    [Symbol.iterator](): Iter<T> {
+        return this.values();
+    }
+
+    /** Lazily merges both sets in order, `other` should use the same comparator */
+    union(other: BTreeSet<T>): Iter<T> {
+        return new SetOpIter(this, other, "union");
+    }
+    intersection(other: BTreeSet<T>): Iter<T> {
+        return new SetOpIter(this, other, "intersection");
+    }
+    /** The values of `this` that aren't in `other` */
+    difference(other: BTreeSet<T>): Iter<T> {
+        return new SetOpIter(this, other, "difference");
+    }
+}
+
+type SetOp = "union" | "intersection" | "difference";
+
+class SetOpIter<T> extends Iter<T> {
+    a: BTreeIter<T, undefined, T>;
+    b: BTreeIter<T, undefined, T>;
+    /** The next values of `a` and `b`, `done` once exhausted */
+    x: IteratorResult<T, unknown>;
+    y: IteratorResult<T, unknown>;
+    comparator: Comparator<T>;
+    op: SetOp;
+
+    constructor(a: BTreeSet<T>, b: BTreeSet<T>, op: SetOp) {
+        super();
+        this.a = a.values();
+        this.b = b.values();
+        this.x = this.a.next();
+        this.y = this.b.next();
+        this.comparator = a.map.comparator;
+        this.op = op;
+    }
+
+    [Symbol.iterator](): Iterator<T, unknown> {
+        return this;
+    }
+    next(): IteratorResult<T, unknown> {
+        while (!this.x.done) {
+            const x = this.x.value;
+            const c = this.y.done ? -1 : this.comparator(x, this.y.value);
+            if (c < 0) {
+                this.x = this.a.next();
+                if (this.op !== "intersection")
+                    return { done: false, value: x };
+            } else if (c > 0) {
+                const y = this.y.value as T;
+                this.y = this.b.next();
+                if (this.op === "union") return { done: false, value: y };
+            } else {
+                this.x = this.a.next();
+                this.y = this.b.next();
+                if (this.op !== "difference") return { done: false, value: x };
+            }
+        }
+        if (this.op === "union" && !this.y.done) {
+            const y = this.y.value;
+            this.y = this.b.next();
+            return { done: false, value: y };
+        }
+        return { done: true, value: undefined };
+    }
+    return: undefined;
+    throw: undefined;
+}
@@ -0,0 +1,586 @@
+import { Stream } from "./stream.js";
+import { Result, Ok, Err } from "./result.js";
+import { Opt, Some, None } from "./option.js";
+import { VecDeque } from "./vecdeque.js";
+
+/** What a broadcast receiver does when it falls behind and misses messages */
+export type LagPolicy = "skip" | "error";
+
+/** Returned by a failed send, gives the unsent value back */
+export class SendError<T> extends Error {
+    readonly kind: "closed" | "full";
+    readonly value: T;
+
+    constructor(kind: "closed" | "full", value: T) {
+        super(kind === "closed" ? "Channel is closed" : "Channel is full");
+        this.name = "SendError";
+        this.kind = kind;
+        this.value = value;
+    }
+}
+
+/** Returned by a failed receive, `skipped` is only set for `"lagged"` */
+export class RecvError extends Error {
+    readonly kind: "closed" | "empty" | "lagged";
+    readonly skipped: number;
+
+    constructor(kind: "closed" | "empty" | "lagged", skipped: number = 0) {
+        super(
+            kind === "closed"
+                ? "Channel is closed"
+                : kind === "empty"
+                ? "Channel is empty"
+                : `Receiver lagged behind by ${skipped} messages`,
+        );
+        this.name = "RecvError";
+        this.kind = kind;
+        this.skipped = skipped;
+    }
+}
+
+class Waiters {
+    resolvers: (() => void)[];
+
+    constructor() {
+        this.resolvers = [];
+    }
+
+    wait(): Promise<void> {
+        return new Promise(resolve => this.resolvers.push(resolve));
+    }
+    wakeOne() {
+        this.resolvers.shift()?.();
+    }
+    wakeAll() {
+        const resolvers = this.resolvers;
+        this.resolvers = [];
+        for (const resolve of resolvers) resolve();
+    }
+}
+
+class MpscState<T> {
+    queue: VecDeque<T>;
+    capacity: number;
+    senders: number;
+    closed: boolean;
+    recvWaiters: Waiters;
+    sendWaiters: Waiters;
+
+    constructor(capacity: number) {
+        this.queue = new VecDeque();
+        this.capacity = capacity;
+        this.senders = 1;
+        this.closed = false;
+        this.recvWaiters = new Waiters();
+        this.sendWaiters = new Waiters();
+    }
+}
+
+export class MpscSender<T> {
+    state: MpscState<T>;
+    closed: boolean;
+
+    /** INTERNAL DETAIL */
+    constructor(state: MpscState<T>) {
+        this.state = state;
+        this.closed = false;
+    }
+
+    /** Waits for free capacity, fails once the channel is closed */
+    async send(value: T): Promise<Result<void, SendError<T>>> {
+        while (true) {
+            const res = this.trySend(value);
+            if (res.ok || res.value.kind === "closed") return res;
+            await this.state.sendWaiters.wait();
+        }
+    }
+    trySend(value: T): Result<void, SendError<T>> {
+        if (this.closed || this.state.closed) {
+            return Err(new SendError("closed", value));
+        } else if (this.state.queue.size >= this.state.capacity) {
+            return Err(new SendError("full", value));
+        }
+        this.state.queue.pushBack(value);
+        this.state.recvWaiters.wakeAll();
+        return Ok(undefined);
+    }
+    /** Another sender for the same channel, it has to be closed separately */
+    clone(): MpscSender<T> {
+        if (!this.closed) this.state.senders++;
+        const sender = new MpscSender(this.state);
+        sender.closed = this.closed;
+        return sender;
+    }
+    /** The receiver ends once every sender is closed */
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.state.senders--;
+        this.state.sendWaiters.wakeAll();
+        if (this.state.senders <= 0) this.state.recvWaiters.wakeAll();
+    }
+    /** Whether the receiver was closed */
+    isClosed(): boolean {
+        return this.state.closed;
+    }
+}
+
+export class MpscReceiver<T> extends Stream<T> {
+    state: MpscState<T>;
+
+    /** INTERNAL DETAIL */
+    constructor(state: MpscState<T>) {
+        super();
+        this.state = state;
+    }
+
+    /** Waits for a message, fails once the channel is closed and drained */
+    async recv(): Promise<Result<T, RecvError>> {
+        while (true) {
+            const res = this.tryRecv();
+            if (res.ok || res.value.kind === "closed") return res;
+            await this.state.recvWaiters.wait();
+        }
+    }
+    tryRecv(): Result<T, RecvError> {
+        const value = this.state.queue.popFront();
+        if (value.some) {
+            this.state.sendWaiters.wakeOne();
+            return Ok(value.value);
+        } else if (this.state.closed || this.state.senders <= 0) {
+            return Err(new RecvError("closed"));
+        } else {
+            return Err(new RecvError("empty"));
+        }
+    }
+    /** Stops new messages, the buffered ones can still be received */
+    close() {
+        this.state.closed = true;
+        this.state.sendWaiters.wakeAll();
+        this.state.recvWaiters.wakeAll();
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+    async next(): Promise<IteratorResult<T, unknown>> {
+        const res = await this.recv();
+        return res.ok ? { value: res.value } : { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value };
+    }
+    async throw(_e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value: undefined };
+    }
+}
+
+class OneshotState<T> {
+    value: Opt<T>;
+    sent: boolean;
+    senderClosed: boolean;
+    receiverClosed: boolean;
+    waiters: Waiters;
+
+    constructor() {
+        this.value = None;
+        this.sent = false;
+        this.senderClosed = false;
+        this.receiverClosed = false;
+        this.waiters = new Waiters();
+    }
+}
+
+export class OneshotSender<T> {
+    state: OneshotState<T>;
+
+    /** INTERNAL DETAIL */
+    constructor(state: OneshotState<T>) {
+        this.state = state;
+    }
+
+    /** Fails if a value was already sent or either side was closed */
+    send(value: T): Result<void, SendError<T>> {
+        const state = this.state;
+        if (state.sent || state.senderClosed || state.receiverClosed) {
+            return Err(new SendError("closed", value));
+        }
+        state.sent = true;
+        state.value = Some(value);
+        state.waiters.wakeAll();
+        return Ok(undefined);
+    }
+    close() {
+        this.state.senderClosed = true;
+        this.state.waiters.wakeAll();
+    }
+    /** Whether the receiver was closed */
+    isClosed(): boolean {
+        return this.state.receiverClosed;
+    }
+}
+
+export class OneshotReceiver<T> extends Stream<T> {
+    state: OneshotState<T>;
+
+    /** INTERNAL DETAIL */
+    constructor(state: OneshotState<T>) {
+        super();
+        this.state = state;
+    }
+
+    async recv(): Promise<Result<T, RecvError>> {
+        while (true) {
+            const res = this.tryRecv();
+            if (res.ok || res.value.kind === "closed") return res;
+            await this.state.waiters.wait();
+        }
+    }
+    tryRecv(): Result<T, RecvError> {
+        const state = this.state;
+        if (state.value.some) {
+            const value = state.value.value;
+            state.value = None;
+            return Ok(value);
+        } else if (state.sent || state.senderClosed || state.receiverClosed) {
+            return Err(new RecvError("closed"));
+        } else {
+            return Err(new RecvError("empty"));
+        }
+    }
+    close() {
+        this.state.receiverClosed = true;
+        this.state.waiters.wakeAll();
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+    async next(): Promise<IteratorResult<T, unknown>> {
+        const res = await this.recv();
+        return res.ok ? { value: res.value } : { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value };
+    }
+    async throw(_e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value: undefined };
+    }
+}
+
+class BroadcastState<T> {
+    /** A ring buffer, message `seq` lives at `seq % capacity` */
+    buffer: T[];
+    capacity: number;
+    /** The sequence number of the next message */
+    tail: number;
+    senders: number;
+    receivers: number;
+    lag: LagPolicy;
+    waiters: Waiters;
+
+    constructor(capacity: number, lag: LagPolicy) {
+        this.buffer = [];
+        this.capacity = Math.max(1, 0 | capacity);
+        this.tail = 0;
+        this.senders = 1;
+        this.receivers = 1;
+        this.lag = lag;
+        this.waiters = new Waiters();
+    }
+
+    /** The sequence number of the oldest message still in the buffer */
+    get head(): number {
+        return Math.max(0, this.tail - this.capacity);
+    }
+}
+
+export class BroadcastSender<T> {
+    state: BroadcastState<T>;
+    closed: boolean;
+
+    /** INTERNAL DETAIL */
+    constructor(state: BroadcastState<T>) {
+        this.state = state;
+        this.closed = false;
+    }
+
+    /**
+     * Never waits, the oldest message is dropped when the buffer is full.
+     * Returns the number of receivers, fails if there are none
+     */
+    send(value: T): Result<number, SendError<T>> {
+        const state = this.state;
+        if (this.closed || state.receivers <= 0) {
+            return Err(new SendError("closed", value));
+        }
+        state.buffer[state.tail % state.capacity] = value;
+        state.tail++;
+        state.waiters.wakeAll();
+        return Ok(state.receivers);
+    }
+    /** A new receiver that gets every message sent from now on */
+    subscribe(): BroadcastReceiver<T> {
+        this.state.receivers++;
+        return new BroadcastReceiver(this.state, this.state.tail);
+    }
+    /** Another sender for the same channel, it has to be closed separately */
+    clone(): BroadcastSender<T> {
+        if (!this.closed) this.state.senders++;
+        const sender = new BroadcastSender(this.state);
+        sender.closed = this.closed;
+        return sender;
+    }
+    /** The receivers end once every sender is closed */
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.state.senders--;
+        if (this.state.senders <= 0) this.state.waiters.wakeAll();
+    }
+    receiverCount(): number {
+        return this.state.receivers;
+    }
+}
+
+/**
+ * With the `"error"` lag policy, `recv` reports missed messages as a
+ * `"lagged"` `RecvError` and iterating throws it
+ */
+export class BroadcastReceiver<T> extends Stream<T> {
+    state: BroadcastState<T>;
+    /** The sequence number of the next message to receive */
+    seq: number;
+    closed: boolean;
+
+    /** INTERNAL DETAIL */
+    constructor(state: BroadcastState<T>, seq: number) {
+        super();
+        this.state = state;
+        this.seq = seq;
+        this.closed = false;
+    }
+
+    async recv(): Promise<Result<T, RecvError>> {
+        while (true) {
+            const res = this.tryRecv();
+            if (res.ok || res.value.kind !== "empty") return res;
+            await this.state.waiters.wait();
+        }
+    }
+    tryRecv(): Result<T, RecvError> {
+        const state = this.state;
+        if (this.closed) return Err(new RecvError("closed"));
+
+        if (this.seq < state.head) {
+            const skipped = state.head - this.seq;
+            this.seq = state.head;
+            if (state.lag === "error")
+                return Err(new RecvError("lagged", skipped));
+        }
+        if (this.seq < state.tail) {
+            return Ok(state.buffer[this.seq++ % state.capacity]);
+        } else if (state.senders <= 0) {
+            return Err(new RecvError("closed"));
+        } else {
+            return Err(new RecvError("empty"));
+        }
+    }
+    /** A new receiver that starts at the same position as this one */
+    clone(): BroadcastReceiver<T> {
+        this.state.receivers++;
+        return new BroadcastReceiver(this.state, this.seq);
+    }
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.state.receivers--;
+        this.state.waiters.wakeAll();
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+    async next(): Promise<IteratorResult<T, unknown>> {
+        const res = await this.recv();
+        if (res.ok) return { value: res.value };
+        else if (res.value.kind === "lagged") throw res.value;
+        else return { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value };
+    }
+    async throw(_e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value: undefined };
+    }
+}
+
+class WatchState<T> {
+    value: T;
+    version: number;
+    senderClosed: boolean;
+    receivers: number;
+    waiters: Waiters;
+
+    constructor(value: T) {
+        this.value = value;
+        this.version = 0;
+        this.senderClosed = false;
+        this.receivers = 1;
+        this.waiters = new Waiters();
+    }
+}
+
+export class WatchSender<T> {
+    state: WatchState<T>;
+
+    /** INTERNAL DETAIL */
+    constructor(state: WatchState<T>) {
+        this.state = state;
+    }
+
+    /** Replaces the value, fails if there are no receivers */
+    send(value: T): Result<void, SendError<T>> {
+        const state = this.state;
+        if (state.senderClosed || state.receivers <= 0) {
+            return Err(new SendError("closed", value));
+        }
+        state.value = value;
+        state.version++;
+        state.waiters.wakeAll();
+        return Ok(undefined);
+    }
+    borrow(): T {
+        return this.state.value;
+    }
+    /** A new receiver that has seen the current value */
+    subscribe(): WatchReceiver<T> {
+        this.state.receivers++;
+        return new WatchReceiver(this.state);
+    }
+    close() {
+        this.state.senderClosed = true;
+        this.state.waiters.wakeAll();
+    }
+    receiverCount(): number {
+        return this.state.receivers;
+    }
+}
+
+/** Iterating yields the current value first, then every value it sees change to */
+export class WatchReceiver<T> extends Stream<T> {
+    state: WatchState<T>;
+    /** The last version seen by this receiver */
+    seen: number;
+    started: boolean;
+    closed: boolean;
+
+    /** INTERNAL DETAIL */
+    constructor(state: WatchState<T>) {
+        super();
+        this.state = state;
+        this.seen = state.version;
+        this.started = false;
+        this.closed = false;
+    }
+
+    borrow(): T {
+        return this.state.value;
+    }
+    /** Waits for a value this receiver hasn't seen yet and marks it as seen */
+    async changed(): Promise<Result<void, RecvError>> {
+        while (true) {
+            if (this.closed) return Err(new RecvError("closed"));
+            if (this.seen < this.state.version) {
+                this.seen = this.state.version;
+                return Ok(undefined);
+            }
+            if (this.state.senderClosed) return Err(new RecvError("closed"));
+            await this.state.waiters.wait();
+        }
+    }
+    /** Another receiver that has seen the same values as this one */
+    clone(): WatchReceiver<T> {
+        this.state.receivers++;
+        const receiver = new WatchReceiver(this.state);
+        receiver.seen = this.seen;
+        return receiver;
+    }
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.state.receivers--;
+        this.state.waiters.wakeAll();
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+    async next(): Promise<IteratorResult<T, unknown>> {
+        if (!this.started && !this.closed) {
+            this.started = true;
+            this.seen = this.state.version;
+            return { value: this.state.value };
+        }
+        const res = await this.changed();
+        return res.ok
+            ? { value: this.state.value }
+            : { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value };
+    }
+    async throw(_e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.close();
+        return { done: true, value: undefined };
+    }
+}
+
+/** A multi-producer single-consumer channel that holds up to `capacity` messages */
+function mpsc<T>(capacity: number): [MpscSender<T>, MpscReceiver<T>] {
+    const state = new MpscState<T>(Math.max(1, 0 | capacity));
+    return [new MpscSender(state), new MpscReceiver(state)];
+}
+
+/** A multi-producer single-consumer channel without a capacity limit */
+function unbounded<T>(): [MpscSender<T>, MpscReceiver<T>] {
+    const state = new MpscState<T>(Infinity);
+    return [new MpscSender(state), new MpscReceiver(state)];
+}
+
+/** A channel for a single value */
+function oneshot<T>(): [OneshotSender<T>, OneshotReceiver<T>] {
+    const state = new OneshotState<T>();
+    return [new OneshotSender(state), new OneshotReceiver(state)];
+}
+
+/** A multi-producer multi-consumer channel, every receiver sees every message */
+function broadcast<T>(
+    capacity: number,
+    lag: LagPolicy = "skip",
+): [BroadcastSender<T>, BroadcastReceiver<T>] {
+    const state = new BroadcastState<T>(capacity, lag);
+    return [new BroadcastSender(state), new BroadcastReceiver(state, 0)];
+}
+
+/** A single value that receivers can watch for changes */
+function watch<T>(value: T): [WatchSender<T>, WatchReceiver<T>] {
+    const state = new WatchState(value);
+    return [new WatchSender(state), new WatchReceiver(state)];
+}
+
+export const channel = {
+    mpsc,
+    unbounded,
+    oneshot,
+    broadcast,
+    watch,
+} as const;
+export default channel;
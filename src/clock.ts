@@ -0,0 +1,85 @@
+/** A source of time for the time-based `Stream` adapters */
+export interface Clock {
+    /** The current time in milliseconds */
+    now(): number;
+    /** Calls `f` after `ms` milliseconds, returns a function that cancels the call */
+    schedule(f: () => void, ms: number): () => void;
+}
+
+/** Real time, backed by `performance.now` and `setTimeout` */
+export const systemClock: Clock = {
+    now() {
+        return performance.now();
+    },
+    schedule(f: () => void, ms: number): () => void {
+        const timeout = setTimeout(f, ms);
+        return () => clearTimeout(timeout);
+    },
+};
+
+/** Resolves after `ms` milliseconds of `clock`'s time */
+export function sleep(ms: number, clock: Clock = systemClock): Promise<void> {
+    return new Promise(resolve => clock.schedule(resolve, ms));
+}
+
+type VirtualTimer = { at: number; id: number; f: () => void };
+
+/** Time that only moves when `advance` is called, for deterministic tests */
+export class VirtualClock implements Clock {
+    time: number;
+    timers: VirtualTimer[];
+    id: number;
+
+    constructor(time: number = 0) {
+        this.time = time;
+        this.timers = [];
+        this.id = 0;
+    }
+
+    now(): number {
+        return this.time;
+    }
+    schedule(f: () => void, ms: number): () => void {
+        const timer = { at: this.time + Math.max(0, ms), id: this.id++, f };
+        this.timers.push(timer);
+        return () => {
+            const i = this.timers.indexOf(timer);
+            if (i !== -1) this.timers.splice(i, 1);
+        };
+    }
+
+    /**
+     * Moves the time forward by `ms`, runs the timers that come due in order
+     * and lets pending promises settle after each of them
+     */
+    async advance(ms: number): Promise<void> {
+        const end = this.time + ms;
+        while (true) {
+            await flush();
+
+            let next: VirtualTimer | undefined;
+            for (const timer of this.timers) {
+                if (timer.at > end) continue;
+                if (
+                    next === undefined ||
+                    timer.at < next.at ||
+                    (timer.at === next.at && timer.id < next.id)
+                ) {
+                    next = timer;
+                }
+            }
+            if (next === undefined) break;
+
+            this.timers.splice(this.timers.indexOf(next), 1);
+            this.time = next.at;
+            next.f();
+        }
+        this.time = end;
+        await flush();
+    }
+}
+
+/** Lets every queued promise callback run */
+function flush(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
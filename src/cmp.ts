@@ -0,0 +1,127 @@
+/** Method key of `Eq`, see `equals` */
+export const eq = Symbol("eq");
+/** Method key of `Ord`, see `compare` */
+export const cmp = Symbol("cmp");
+/** Method key of `Hash`, see `hashCode` */
+export const hash = Symbol("hash");
+
+export type Ordering = -1 | 0 | 1;
+/** Orders values like `Array.sort` comparators, `compare` is one */
+export type Comparator<T> = (a: T, b: T) => number;
+
+export interface Eq {
+    [eq](other: unknown): boolean;
+}
+/** Has to agree with `Eq`: `a[cmp](b) === 0` iff `a[eq](b)` */
+export interface Ord extends Eq {
+    [cmp](other: unknown): Ordering;
+}
+/** Has to agree with `Eq`: equal values have equal hashes */
+export interface Hash extends Eq {
+    [hash](): number;
+}
+
+function hasMethod<K extends symbol>(
+    x: unknown,
+    key: K,
+): x is { [_ in K]: (...args: any[]) => any } {
+    return (
+        typeof x === "object" &&
+        x !== null &&
+        typeof (x as Record<K, unknown>)[key] === "function"
+    );
+}
+
+/**
+ * Uses `Eq` when `a` implements it, compares arrays element by element,
+ * `Date`s by their time and everything else with SameValueZero, like `Map` keys
+ */
+export function equals(a: unknown, b: unknown): boolean {
+    if (hasMethod(a, eq)) return a[eq](b);
+    if (Array.isArray(a)) {
+        return (
+            Array.isArray(b) &&
+            a.length === b.length &&
+            a.every((x, i) => equals(x, b[i]))
+        );
+    }
+    if (a instanceof Date) {
+        return b instanceof Date && equals(a.getTime(), b.getTime());
+    }
+    return a === b || (a !== a && b !== b);
+}
+
+function sign(x: number): Ordering {
+    return x < 0 ? -1 : x > 0 ? 1 : 0;
+}
+
+/**
+ * Uses `Ord` when `a` implements it, compares arrays lexicographically and
+ * numbers, bigints, strings, booleans and `Date`s by value.
+ * Throws a `TypeError` when the values can't be compared, `NaN` included
+ */
+export function compare(a: unknown, b: unknown): Ordering {
+    if (hasMethod(a, cmp)) return a[cmp](b);
+    if (Array.isArray(a) && Array.isArray(b)) {
+        const len = Math.min(a.length, b.length);
+        for (let i = 0; i < len; i++) {
+            const ord = compare(a[i], b[i]);
+            if (ord !== 0) return ord;
+        }
+        return sign(a.length - b.length);
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return compare(a.getTime(), b.getTime());
+    }
+    if (
+        typeof a === typeof b &&
+        ["number", "bigint", "string", "boolean"].includes(typeof a)
+    ) {
+        const x = a as number;
+        const y = b as number;
+        if (x < y) return -1;
+        if (x > y) return 1;
+        if (x === y) return 0;
+    }
+    throw new TypeError(`Can't compare ${String(a)} with ${String(b)}`);
+}
+
+/** Mixes `h` into `seed`, for `Hash` implementations */
+export function hashCombine(seed: number, h: number): number {
+    return (Math.imul(seed ^ h, 0x5bd1e995) ^ (seed >>> 15)) | 0;
+}
+
+function hashString(s: string): number {
+    // FNV-1a
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        h = Math.imul(h ^ s.charCodeAt(i), 0x01000193);
+    }
+    return h | 0;
+}
+
+const ids = new WeakMap<object, number>();
+let nextId = 0;
+
+/**
+ * A 32-bit hash that agrees with `equals`: uses `Hash` when `x` implements
+ * it, hashes arrays by their elements, `Date`s by their time and other
+ * objects by identity
+ */
+export function hashCode(x: unknown): number {
+    if (hasMethod(x, hash)) return x[hash]();
+    if (Array.isArray(x)) {
+        return x.reduce(
+            (h: number, y) => hashCombine(h, hashCode(y)),
+            x.length,
+        );
+    }
+    if (x instanceof Date) return hashCombine(0x44, hashCode(x.getTime()));
+    if ((typeof x === "object" && x !== null) || typeof x === "function") {
+        let id = ids.get(x);
+        if (id === undefined) ids.set(x, (id = nextId++));
+        return hashCombine(0x2f, id);
+    }
+    // `String(-0)` is "0", so 0 and -0 hash the same
+    return hashString(`${typeof x}:${String(x)}`);
+}
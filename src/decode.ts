@@ -0,0 +1,263 @@
+import { Opt, Some, None } from "./option.js";
+import { Result, Ok, Err } from "./result.js";
+import { report } from "./error.js";
+
+/** Where in the input a decoder failed, object keys and array indices */
+export type Path = (string | number)[];
+
+export type DecodeIssue = { path: Path; message: string };
+
+/** Every issue found by a decoder, `path` and `message` are the first one's */
+export class DecodeError extends Error {
+    readonly path: Path;
+    readonly issues: DecodeIssue[];
+
+    constructor(issues: DecodeIssue[]) {
+        super(issues.map(formatIssue).join("\n"));
+        this.name = "DecodeError";
+        this.path = issues[0]?.path ?? [];
+        this.issues = issues;
+    }
+}
+
+/** Renders a path like `$.users[0].name` */
+export function formatPath(path: Path): string {
+    return path
+        .map(key =>
+            typeof key === "number"
+                ? `[${key}]`
+                : /^[A-Za-z_$][\w$]*$/.test(key)
+                ? `.${key}`
+                : `[${JSON.stringify(key)}]`,
+        )
+        .reduce((acc, key) => acc + key, "$");
+}
+
+function formatIssue({ path, message }: DecodeIssue): string {
+    return `${formatPath(path)}: ${message}`;
+}
+
+function typeName(x: unknown): string {
+    if (x === null) return "null";
+    if (Array.isArray(x)) return "array";
+    // So `decode.number` rejects it, `NaN` is almost always a bug in the input
+    if (Number.isNaN(x)) return "NaN";
+    return typeof x;
+}
+
+/** Tracks the path and the issues of a single `decode` call */
+class DecodeContext {
+    readonly path: Path;
+    readonly issues: DecodeIssue[];
+    /** Whether to keep decoding after the first issue */
+    readonly all: boolean;
+
+    constructor(all: boolean) {
+        this.path = [];
+        this.issues = [];
+        this.all = all;
+    }
+
+    fail(message: string): None {
+        this.issues.push({ path: [...this.path], message });
+        return None;
+    }
+
+    at<T>(key: string | number, f: () => Opt<T>): Opt<T> {
+        this.path.push(key);
+        try {
+            return f();
+        } finally {
+            this.path.pop();
+        }
+    }
+}
+
+/** The type a decoder produces */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+export class Decoder<T> {
+    /** INTERNAL DETAIL: returns `None` after recording the issues in `ctx` */
+    readonly run: (x: unknown, ctx: DecodeContext) => Opt<T>;
+
+    /** INTERNAL DETAIL */
+    constructor(run: (x: unknown, ctx: DecodeContext) => Opt<T>) {
+        this.run = run;
+    }
+
+    /** Stops at the first issue */
+    decode(x: unknown): Result<T, DecodeError> {
+        return this.decodeWith(x, new DecodeContext(false));
+    }
+    /** Reports every issue in the input */
+    decodeAll(x: unknown): Result<T, DecodeError> {
+        return this.decodeWith(x, new DecodeContext(true));
+    }
+    private decodeWith(x: unknown, ctx: DecodeContext): Result<T, DecodeError> {
+        const res = this.run(x, ctx);
+        return res.some && ctx.issues.length === 0
+            ? Ok(res.value)
+            : Err(new DecodeError(ctx.issues));
+    }
+
+    /** Fails with `message` when `predicate` doesn't hold */
+    refine<U extends T>(
+        predicate: (x: T) => x is U,
+        message: string,
+    ): Decoder<U>;
+    refine(predicate: (x: T) => boolean, message: string): Decoder<T>;
+    refine(predicate: (x: T) => boolean, message: string): Decoder<T> {
+        return new Decoder((x, ctx) =>
+            this.run(x, ctx).and(y =>
+                predicate(y) ? Some(y) : ctx.fail(message),
+            ),
+        );
+    }
+
+    /** Maps the decoded value, an error thrown by `f` becomes an issue */
+    transform<U>(f: (x: T) => U): Decoder<U> {
+        return new Decoder((x, ctx) =>
+            this.run(x, ctx).and(y =>
+                Result.catch(() => f(y)).match({
+                    Ok: Some,
+                    Err: e => ctx.fail(report(e)),
+                }),
+            ),
+        );
+    }
+
+    /** `undefined` decodes to `None`, anything else to `Some` */
+    optional(): Decoder<Opt<T>> {
+        return new Decoder<Opt<T>>((x, ctx) =>
+            x === undefined ? Some(None) : this.run(x, ctx).map(Some),
+        );
+    }
+}
+
+function primitive<T>(name: string): Decoder<T> {
+    return new Decoder((x, ctx) =>
+        typeName(x) === name
+            ? Some(x as T)
+            : ctx.fail(`expected ${name}, got ${typeName(x)}`),
+    );
+}
+
+type Literal = string | number | boolean | null | undefined;
+
+function literal<const L extends Literal[]>(...values: L): Decoder<L[number]> {
+    return new Decoder((x, ctx) =>
+        values.includes(x as Literal)
+            ? Some(x as L[number])
+            : ctx.fail(
+                  `expected ${values
+                      .map(v =>
+                          v === undefined ? "undefined" : JSON.stringify(v),
+                      )
+                      .join(" | ")}, got ${
+                      typeName(x) === "object" ? "object" : JSON.stringify(x)
+                  }`,
+              ),
+    );
+}
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+    return typeName(x) === "object";
+}
+
+type Shape = Record<string, Decoder<any>>;
+
+/** Decodes the keys in `shape`, other keys are left out of the result */
+function object<S extends Shape>(
+    shape: S,
+): Decoder<{ [K in keyof S]: Infer<S[K]> }> {
+    return new Decoder((x, ctx) => {
+        if (!isRecord(x))
+            return ctx.fail(`expected object, got ${typeName(x)}`);
+
+        const out: Record<string, unknown> = {};
+        let ok = true;
+        for (const [key, decoder] of Object.entries(shape)) {
+            const res = ctx.at(key, () => decoder.run(x[key], ctx));
+            if (res.some) {
+                out[key] = res.value;
+            } else {
+                ok = false;
+                if (!ctx.all) break;
+            }
+        }
+        return ok ? Some(out as { [K in keyof S]: Infer<S[K]> }) : None;
+    });
+}
+
+function array<T>(item: Decoder<T>): Decoder<T[]> {
+    return new Decoder((x, ctx) => {
+        if (!Array.isArray(x))
+            return ctx.fail(`expected array, got ${typeName(x)}`);
+
+        const out: T[] = [];
+        let ok = true;
+        for (let i = 0; i < x.length; i++) {
+            const res = ctx.at(i, () => item.run(x[i], ctx));
+            if (res.some) {
+                out.push(res.value);
+            } else {
+                ok = false;
+                if (!ctx.all) break;
+            }
+        }
+        return ok ? Some(out) : None;
+    });
+}
+
+/** The first decoder that succeeds wins, fails with every decoder's issue otherwise */
+function union<D extends Decoder<any>[]>(
+    ...decoders: D
+): Decoder<Infer<D[number]>> {
+    return new Decoder((x, ctx) => {
+        const messages = [];
+        for (const decoder of decoders) {
+            // `sub` paths are relative to `x`
+            const sub = new DecodeContext(false);
+            const res = decoder.run(x, sub);
+            if (res.some && sub.issues.length === 0) return res;
+            messages.push(
+                sub.issues
+                    .map(issue =>
+                        issue.path.length === 0
+                            ? issue.message
+                            : formatIssue(issue),
+                    )
+                    .join(", "),
+            );
+        }
+        return ctx.fail(`no variant matched (${messages.join("; ")})`);
+    });
+}
+
+function optional<T>(decoder: Decoder<T>): Decoder<Opt<T>> {
+    return decoder.optional();
+}
+
+/**
+ * Composable decoders from `unknown` to typed values:
+ * ```ts
+ * const User = decode.object({
+ *     name: decode.string,
+ *     age: decode.optional(decode.number),
+ * });
+ * type User = Infer<typeof User>;
+ * User.decode(JSON.parse(text)); // Result<User, DecodeError>
+ * ```
+ */
+export const decode = {
+    string: primitive<string>("string"),
+    number: primitive<number>("number"),
+    boolean: primitive<boolean>("boolean"),
+    unknown: new Decoder<unknown>(x => Some(x)),
+    literal,
+    object,
+    array,
+    union,
+    optional,
+} as const;
+export default decode;
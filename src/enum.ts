@@ -0,0 +1,154 @@
+import { Opt, Some, None } from "./option.js";
+import type { If, Unique } from "./utils.js";
+
+export type AnyVariant = Variant<string, unknown>;
+
+/** The payload type of the variant of `V` tagged `K` */
+export type PayloadOf<V, K> = V extends Variant<infer T, infer P>
+    ? K extends T
+        ? P
+        : never
+    : never;
+
+/** An arm for every variant of `V` */
+export type Arms<V extends AnyVariant> = {
+    [K in V["tag"]]: (payload: PayloadOf<V, K>) => unknown;
+};
+
+/** The union of the arms' return types */
+export type ArmsResult<A> = {
+    [K in keyof A]: A[K] extends (...args: any[]) => infer R ? R : never;
+}[keyof A];
+
+/** A value of an enum made by `enumType` */
+export class Variant<K extends string, P> {
+    readonly tag: K;
+    readonly value: P;
+
+    /** INTERNAL DETAIL */
+    constructor(tag: K, value: P) {
+        this.tag = tag;
+        this.value = value;
+    }
+
+    is<V extends AnyVariant, T extends V["tag"]>(
+        this: V,
+        tag: T,
+    ): this is Extract<V, Variant<T, unknown>> {
+        return this.tag === tag;
+    }
+
+    /** The payload if `this` is tagged `tag`, like `Result.okValue` */
+    get<V extends AnyVariant, T extends V["tag"]>(
+        this: V,
+        tag: T,
+    ): Opt<PayloadOf<V, T>> {
+        return this.tag === tag ? Some(this.value as PayloadOf<V, T>) : None;
+    }
+
+    /** Maps the payload if `this` is tagged `tag`, like `Result.map` */
+    map<V extends AnyVariant, T extends V["tag"], U>(
+        this: V,
+        tag: T,
+        f: (payload: PayloadOf<V, T>) => U,
+    ): Exclude<V, Variant<T, unknown>> | Variant<T, U> {
+        return this.tag === tag
+            ? new (this.constructor as typeof Variant)(
+                  tag,
+                  f(this.value as PayloadOf<V, T>),
+              )
+            : (this as Exclude<V, Variant<T, unknown>>);
+    }
+
+    /** Throws if `this` isn't tagged `tag` */
+    unwrap<V extends AnyVariant, T extends V["tag"]>(
+        this: V,
+        tag: T,
+        msg: string = `Failed to unwrap ${tag}`,
+    ): PayloadOf<V, T> {
+        if (this.tag === tag) return this.value as PayloadOf<V, T>;
+        else throw new Error(msg);
+    }
+
+    match<V extends AnyVariant, A extends Arms<V>>(
+        this: V,
+        arms: A,
+    ): ArmsResult<A> {
+        const arm = arms[this.tag as V["tag"]] as (payload: unknown) => any;
+        return arm(this.value);
+    }
+}
+
+type Constructors = Record<string, (...args: any[]) => unknown> & {
+    tags?: never;
+    is?: never;
+    match?: never;
+};
+
+type EnumHelpers<V extends AnyVariant> = {
+    readonly tags: V["tag"][];
+    /** Whether `x` is a variant of this enum */
+    is(x: unknown): x is V;
+    match<A extends Arms<V>>(x: V, arms: A): ArmsResult<A>;
+};
+
+/** The union of the variants of an enum made by `enumType` */
+export type VariantOf<E> = E extends EnumHelpers<infer V> ? V : never;
+
+export type Enum<D extends Constructors> = {
+    [K in keyof D & string]: (
+        ...args: Parameters<D[K]>
+    ) => Variant<K, ReturnType<D[K]>>;
+} & EnumHelpers<
+    { [K in keyof D & string]: Variant<K, ReturnType<D[K]>> }[keyof D & string]
+>;
+
+export type UnitEnum<K extends string> = {
+    readonly [T in K]: Variant<T, undefined>;
+} & EnumHelpers<{ [T in K]: Variant<T, undefined> }[K]>;
+
+/**
+ * Defines a tagged enum, every variant is built from the payload returned by
+ * its constructor:
+ * ```ts
+ * const Shape = enumType({
+ *     Circle: (r: number) => ({ r }),
+ *     Rect: (w: number, h: number) => ({ w, h }),
+ * });
+ * type Shape = VariantOf<typeof Shape>;
+ * ```
+ */
+export function enumType<D extends Constructors>(ctors: D): Enum<D>;
+/** Defines an enum of variants without payloads, the tags have to be unique */
+export function enumType<const K extends readonly string[]>(
+    tags: K & If<Unique<[...K]>, unknown, never>,
+): UnitEnum<K[number]>;
+export function enumType(
+    def: Record<string, (...args: any[]) => unknown> | readonly string[],
+): Record<string, unknown> {
+    const EnumVariant = class<K extends string, P> extends Variant<K, P> {};
+    const tags = Array.isArray(def) ? [...def] : Object.keys(def);
+
+    const e: Record<string, unknown> = {
+        tags,
+        is(x: unknown): boolean {
+            return x instanceof EnumVariant;
+        },
+        match(x: AnyVariant, arms: Arms<AnyVariant>): unknown {
+            return x.match(arms);
+        },
+    };
+    for (const tag of tags) {
+        if (Array.isArray(def)) {
+            e[tag] = new EnumVariant(tag, undefined);
+        } else {
+            const ctor = (def as Record<string, (...args: any[]) => unknown>)[
+                tag
+            ];
+            e[tag] = (...args: unknown[]) =>
+                new EnumVariant(tag, ctor(...args));
+        }
+    }
+    return e;
+}
+export default enumType;
@@ -0,0 +1,54 @@
+/**
+ * An error with a message describing what was being done when `cause`
+ * happened, see `Result.context`. Its `message` is the full report
+ */
+export class ContextError<E = unknown> extends Error {
+    /** The message of just this error, without the causes */
+    readonly context: string;
+    declare readonly cause: E;
+
+    constructor(context: string, cause: E) {
+        super(context, { cause });
+        this.name = "ContextError";
+        this.context = context;
+        this.message = report(this);
+    }
+}
+
+/**
+ * Renders `err` followed by its chain of `cause`s:
+ * ```text
+ * loading config
+ *
+ * Caused by:
+ *     0: reading config.json
+ *     1: ENOENT: no such file or directory
+ * ```
+ */
+export function report(err: unknown): string {
+    const seen = new Set([err]);
+    const causes = [];
+    for (let e = err; e instanceof Error && e.cause !== undefined; ) {
+        e = e.cause;
+        if (seen.has(e)) break;
+        seen.add(e);
+        causes.push(describe(e));
+    }
+
+    const head = describe(err);
+    if (causes.length === 0) return head;
+    return `${head}\n\nCaused by:\n${causes
+        .map((cause, i) => `    ${i}: ${cause.replaceAll("\n", "\n       ")}`)
+        .join("\n")}`;
+}
+
+function describe(e: unknown): string {
+    if (e instanceof ContextError) return e.context;
+    if (e instanceof Error) return e.message;
+    if (typeof e === "string") return e;
+    try {
+        return JSON.stringify(e) ?? String(e);
+    } catch {
+        return String(e);
+    }
+}
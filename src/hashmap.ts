@@ -0,0 +1,213 @@
+import iter, { Iter } from "./iter.js";
+import { Opt, Some, None } from "./option.js";
+import { equals, hashCode } from "./cmp.js";
+
+/** How a `HashMap` or a `HashSet` hashes and compares its keys */
+export interface Hasher<K> {
+    hash(key: K): number;
+    /** Has to agree with `hash`: equal keys have equal hashes */
+    eq(a: K, b: K): boolean;
+}
+
+/** Uses the `Hash` and `Eq` protocols, see `hashCode` and `equals` */
+export const defaultHasher: Hasher<unknown> = { hash: hashCode, eq: equals };
+
+/** A map that compares keys with a `Hasher` instead of by identity */
+export class HashMap<K, V> implements Iterable<[K, V]> {
+    /** Maps a hash to the entries with that hash */
+    buckets: Map<number, [K, V][]>;
+    hasher: Hasher<K>;
+    size: number;
+
+    constructor();
+    constructor(entries?: Iterable<[K, V]> | null, hasher?: Hasher<K>);
+    constructor(
+        entries?: Iterable<[K, V]> | null,
+        hasher: Hasher<K> = defaultHasher,
+    ) {
+        this.buckets = new Map();
+        this.hasher = hasher;
+        this.size = 0;
+        if (entries) for (const [k, v] of entries) this.insert(k, v);
+    }
+
+    /** The bucket of `key`, and the index of `key` in it or -1 */
+    private find(key: K): [[K, V][] | undefined, number] {
+        const bucket = this.buckets.get(this.hasher.hash(key));
+        if (bucket === undefined) return [undefined, -1];
+        return [bucket, bucket.findIndex(([k]) => this.hasher.eq(k, key))];
+    }
+
+    has(key: K): boolean {
+        return this.find(key)[1] !== -1;
+    }
+    get(key: K): Opt<V> {
+        return this.getKeyValue(key).map(([, v]) => v);
+    }
+    /** Like `get`, but also returns the stored key */
+    getKeyValue(key: K): Opt<[K, V]> {
+        const [bucket, i] = this.find(key);
+        if (i === -1) return None;
+        const [k, v] = bucket![i]!;
+        return Some([k, v]);
+    }
+    /** Returns the previous value, the stored key isn't replaced */
+    insert(key: K, value: V): Opt<V> {
+        const h = this.hasher.hash(key);
+        const bucket = this.buckets.get(h);
+        if (bucket === undefined) {
+            this.buckets.set(h, [[key, value]]);
+            this.size++;
+            return None;
+        }
+        const entry = bucket.find(([k]) => this.hasher.eq(k, key));
+        if (entry === undefined) {
+            bucket.push([key, value]);
+            this.size++;
+            return None;
+        }
+        const old = entry[1];
+        entry[1] = value;
+        return Some(old);
+    }
+    remove(key: K): Opt<V> {
+        return this.removeEntry(key).map(([, v]) => v);
+    }
+    /** Like `remove`, but also returns the stored key */
+    removeEntry(key: K): Opt<[K, V]> {
+        const [bucket, i] = this.find(key);
+        if (i === -1) return None;
+
+        const [entry] = bucket!.splice(i, 1);
+        if (bucket!.length === 0) this.buckets.delete(this.hasher.hash(key));
+        this.size--;
+        return Some(entry!);
+    }
+    entry(key: K): Entry<K, V> {
+        return new Entry(this, key);
+    }
+    clear() {
+        this.buckets.clear();
+        this.size = 0;
+    }
+
+    entries(): Iter<[K, V]> {
+        const buckets = this.buckets;
+        return iter(
+            (function* () {
+                for (const bucket of buckets.values()) {
+                    for (const [k, v] of bucket) yield [k, v] as [K, V];
+                }
+            })(),
+        );
+    }
+    keys(): Iter<K> {
+        return this.entries().map(([k]) => k);
+    }
+    values(): Iter<V> {
+        return this.entries().map(([, v]) => v);
+    }
+    /** Empties the map right away, the entries stay in the returned `Iter` */
+    drain(): Iter<[K, V]> {
+        const entries = [...this.entries()];
+        this.clear();
+        return iter(entries);
+    }
+    [Symbol.iterator](): Iter<[K, V]> {
+        return this.entries();
+    }
+}
+
+/** A key of a `HashMap` that may or may not be in it, see `HashMap.entry` */
+export class Entry<K, V> {
+    readonly map: HashMap<K, V>;
+    readonly key: K;
+
+    /** INTERNAL DETAIL */
+    constructor(map: HashMap<K, V>, key: K) {
+        this.map = map;
+        this.key = key;
+    }
+
+    get(): Opt<V> {
+        return this.map.get(this.key);
+    }
+    insert(value: V): Opt<V> {
+        return this.map.insert(this.key, value);
+    }
+    remove(): Opt<V> {
+        return this.map.remove(this.key);
+    }
+    orInsert(value: V): V {
+        return this.orInsertWith(() => value);
+    }
+    /** `f` only runs if the key is missing */
+    orInsertWith(f: (key: K) => V): V {
+        const old = this.get();
+        if (old.some) return old.value;
+
+        const value = f(this.key);
+        this.insert(value);
+        return value;
+    }
+    /** Replaces the value with `f(value)` if the key is present */
+    andModify(f: (value: V) => V): this {
+        const old = this.get();
+        if (old.some) this.insert(f(old.value));
+        return this;
+    }
+}
+
+/** A set that compares values with a `Hasher` instead of by identity */
+export class HashSet<T> implements Iterable<T> {
+    map: HashMap<T, undefined>;
+
+    constructor();
+    constructor(values?: Iterable<T> | null, hasher?: Hasher<T>);
+    constructor(
+        values?: Iterable<T> | null,
+        hasher: Hasher<T> = defaultHasher,
+    ) {
+        this.map = new HashMap(null, hasher);
+        if (values) for (const x of values) this.insert(x);
+    }
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    has(value: T): boolean {
+        return this.map.has(value);
+    }
+    /** The stored value equal to `value` */
+    get(value: T): Opt<T> {
+        return this.map.getKeyValue(value).map(([k]) => k);
+    }
+    /** Returns whether `value` wasn't in the set, an equal stored value is kept */
+    insert(value: T): boolean {
+        if (this.map.has(value)) return false;
+        this.map.insert(value, undefined);
+        return true;
+    }
+    /** Returns whether `value` was in the set */
+    remove(value: T): boolean {
+        return this.map.remove(value).some;
+    }
+    /** Removes and returns the stored value equal to `value` */
+    take(value: T): Opt<T> {
+        return this.map.removeEntry(value).map(([k]) => k);
+    }
+    clear() {
+        this.map.clear();
+    }
+
+    values(): Iter<T> {
+        return this.map.keys();
+    }
+    drain(): Iter<T> {
+        return this.map.drain().map(([k]) => k);
+    }
+    [Symbol.iterator](): Iter<T> {
+        return this.values();
+    }
+}
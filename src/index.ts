@@ -1,6 +1,20 @@
 export * from "./result.js";
 export * from "./option.js";
+export * from "./validated.js";
+export * from "./error.js";
+export * from "./cmp.js";
+export * from "./match.js";
+export * from "./enum.js";
+export * from "./serde.js";
+export * from "./decode.js";
 export * from "./iter.js";
+export * from "./hashmap.js";
+export * from "./btree.js";
+export * from "./vecdeque.js";
+export * from "./binaryheap.js";
+export * from "./stream.js";
+export * from "./clock.js";
+export * from "./channel.js";
 
 function main() {
     console.log("BEGIN");
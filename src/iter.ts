@@ -1,5 +1,60 @@
 import { Opt, Some, None } from "./option.js";
+import { Result, Ok, Err } from "./result.js";
+import { Validated, Valid } from "./validated.js";
 import { Stream, stream } from "./stream.js";
+import { equals, compare, type Ordering } from "./cmp.js";
+import type { HashMap, HashSet } from "./hashmap.js";
+import type { BTreeMap, BTreeSet } from "./btree.js";
+import type { VecDeque } from "./vecdeque.js";
+import type { BinaryHeap } from "./binaryheap.js";
+import type { Tuple } from "./utils.js";
+
+/** An `Iter` that can also be consumed from the back */
+export interface DoubleEndedIter<T> extends Iter<T> {
+    nextBack(): IteratorResult<T, unknown>;
+}
+/** An `Iter` that knows how many items it has left */
+export interface ExactSizeIter<T> extends Iter<T> {
+    len(): number;
+}
+/** An `Iter` that can look at its next item without consuming it */
+export interface Peekable<T> extends Iter<T> {
+    peek(): Opt<T>;
+    /** Consumes the next item only if it satisfies `f` */
+    nextIf(f: (x: T) => boolean): Opt<T>;
+}
+
+/** The capabilities an adapter of `I` keeps, adapters of any item type keep both */
+type Keeps<I, U> = Iter<U> &
+    (I extends DoubleEndedIter<any> ? DoubleEndedIter<U> : unknown) &
+    (I extends ExactSizeIter<any> ? ExactSizeIter<U> : unknown);
+/** Like `Keeps`, for adapters that need the size to work from the back */
+type KeepsSized<I, U> = Iter<U> &
+    (I extends ExactSizeIter<any>
+        ? ExactSizeIter<U> &
+              (I extends DoubleEndedIter<any> ? DoubleEndedIter<U> : unknown)
+        : unknown);
+
+/** Types an adapter by the capabilities it keeps, which it checks at runtime */
+function adapted<R extends Iter<any>>(iter: Iter<any>): R {
+    return iter as R;
+}
+
+/** What `flatten` and `flatMap` accept, `Opt` and `Result` yield their value */
+export type Flattenable<T> = Iterable<T> | Opt<T> | Result<T, unknown>;
+/** The item type of a `Flattenable` */
+export type FlatItem<I> = I extends Opt<infer T>
+    ? T
+    : I extends Result<infer T, any>
+    ? T
+    : I extends Iterable<infer T>
+    ? T
+    : never;
+
+/** `[lower, upper]` bounds of the items left in `it`, `None` is unbounded */
+function sizeHintOf(it: Iterator<unknown, unknown>): [number, Opt<number>] {
+    return it instanceof Iter ? it.sizeHint() : [0, None];
+}
 
 export abstract class Iter<T> implements Iterable<T>, Iterator<T> {
     abstract [Symbol.iterator](): Iterator<T, unknown>;
@@ -7,6 +62,11 @@ export abstract class Iter<T> implements Iterable<T>, Iterator<T> {
     abstract return?(value: unknown): IteratorResult<T, unknown>;
     abstract throw?(e: unknown): IteratorResult<T, unknown>;
 
+    /** Bounds of the number of items left, exact for an `ExactSizeIter` */
+    sizeHint(): [number, Opt<number>] {
+        return [0, None];
+    }
+
     optNext(): Opt<T> {
         const res = this.next();
         return res.done ? None : Some(res.value);
@@ -45,15 +105,52 @@ export abstract class Iter<T> implements Iterable<T>, Iterator<T> {
         }
         return sum;
     }
-    min(this: Iter<number>): number {
-        let min = 0;
-        for (const x of this) min = Math.min(x, min);
-        return min;
+    /** The first smallest item, see `compare` */
+    min(): Opt<T> {
+        return this.minBy(compare);
+    }
+    /** The last largest item, see `compare` */
+    max(): Opt<T> {
+        return this.maxBy(compare);
+    }
+    minBy(f: (a: T, b: T) => number): Opt<T> {
+        return this.reduce((min, x) => (f(x, min) < 0 ? x : min));
+    }
+    maxBy(f: (a: T, b: T) => number): Opt<T> {
+        return this.reduce((max, x) => (f(x, max) >= 0 ? x : max));
+    }
+    /** Calls `f` once per item */
+    minByKey<K>(f: (x: T) => K): Opt<T> {
+        return this.map(x => [f(x), x] as [K, T])
+            .minBy(([a], [b]) => compare(a, b))
+            .map(([, x]) => x);
     }
-    max(this: Iter<number>): number {
-        let max = 0;
-        for (const x of this) max = Math.max(x, max);
-        return max;
+    /** Calls `f` once per item */
+    maxByKey<K>(f: (x: T) => K): Opt<T> {
+        return this.map(x => [f(x), x] as [K, T])
+            .maxBy(([a], [b]) => compare(a, b))
+            .map(([, x]) => x);
+    }
+    /** Compares lexicographically, like arrays with `compare` */
+    cmp(other: Iterable<T>): Ordering {
+        const it = other[Symbol.iterator]();
+        while (true) {
+            const a = this.next();
+            const b = it.next();
+            if (a.done || b.done) return a.done ? (b.done ? 0 : -1) : 1;
+            const ord = compare(a.value, b.value);
+            if (ord !== 0) return ord;
+        }
+    }
+    /** Compares item by item with `equals` */
+    eq(other: Iterable<T>): boolean {
+        const it = other[Symbol.iterator]();
+        while (true) {
+            const a = this.next();
+            const b = it.next();
+            if (a.done || b.done) return !!a.done && !!b.done;
+            if (!equals(a.value, b.value)) return false;
+        }
     }
     forEach(f: (x: T) => void) {
         for (const x of this) f(x);
@@ -96,14 +193,38 @@ export abstract class Iter<T> implements Iterable<T>, Iterator<T> {
         }
     }
 
-    take(cnt: number): TakeIter<T> {
-        return new TakeIter(this, cnt);
+    /** Takes the last item */
+    last<T>(this: DoubleEndedIter<T>): Opt<T> {
+        const res = this.nextBack();
+        return res.done ? None : Some(res.value);
+    }
+    /** Like `find`, but searches from the back */
+    rfind<T>(this: DoubleEndedIter<T>, f: (x: T) => boolean): Opt<T> {
+        while (true) {
+            const res = this.nextBack();
+            if (res.done) return None;
+            if (f(res.value)) return Some(res.value);
+        }
+    }
+
+    take(cnt: number): KeepsSized<this, T> {
+        return adapted<KeepsSized<this, T>>(new TakeIter(this, cnt));
+    }
+    enumerate(ctr: number = 0): KeepsSized<this, [number, T]> {
+        return adapted<KeepsSized<this, [number, T]>>(
+            new EnumerateIter(this, ctr),
+        );
     }
-    enumerate(ctr: number = 0): EnumerateIter<T> {
-        return new EnumerateIter(this, ctr);
+    map<U>(f: (x: T) => U): Keeps<this, U> {
+        return adapted<Keeps<this, U>>(new MapIter(this, f));
     }
-    map<U>(f: (x: T) => U): MapIter<T, U> {
-        return new MapIter(this, f);
+    peekable(): Peekable<T> & Keeps<this, T> {
+        return adapted<Peekable<T> & Keeps<this, T>>(new PeekableIter(this));
+    }
+    rev<I extends DoubleEndedIter<T>>(
+        this: I,
+    ): DoubleEndedIter<T> & Keeps<I, T> {
+        return adapted<DoubleEndedIter<T> & Keeps<I, T>>(new RevIter(this));
     }
     filter(f: (x: T) => boolean): FilterIter<T> {
         return new FilterIter(this, f);
@@ -111,15 +232,183 @@ export abstract class Iter<T> implements Iterable<T>, Iterator<T> {
     filterMap<U>(f: (x: T) => Opt<U>): FilterMapIter<T, U> {
         return new FilterMapIter(this, f);
     }
+    /** Iterates over `this`, then over `other` */
+    chain<U>(other: Iterable<U>): Iter<T | U> {
+        return new ChainIter<T | U>(this, other);
+    }
+    flatten<I extends Flattenable<unknown>>(this: Iter<I>): Iter<FlatItem<I>> {
+        return new FlatMapIter(this, x => x as Flattenable<FlatItem<I>>);
+    }
+    flatMap<I extends Flattenable<unknown>>(f: (x: T) => I): Iter<FlatItem<I>> {
+        return new FlatMapIter(this, x => f(x) as Flattenable<FlatItem<I>>);
+    }
+    skip(cnt: number): KeepsSized<this, T> {
+        return adapted<KeepsSized<this, T>>(new SkipIter(this, cnt));
+    }
+    /** Yields the first item and then every `step`th one */
+    stepBy(step: number): Iter<T> {
+        return new StepByIter(this, step);
+    }
+    /** Repeats the items forever, they're cached during the first pass */
+    cycle(): Iter<T> {
+        return new CycleIter(this);
+    }
+    /** Puts `sep` between every two adjacent items */
+    intersperse(sep: T): Iter<T> {
+        return new IntersperseIter(this, sep);
+    }
+    /** Calls `f` on every item as it passes through */
+    inspect(f: (x: T) => void): Keeps<this, T> {
+        return adapted<Keeps<this, T>>(
+            new MapIter(this, x => {
+                f(x);
+                return x;
+            }),
+        );
+    }
+    /** Stays done after the first `done` result */
+    fuse(): Iter<T> {
+        return new FuseIter(this);
+    }
+    /** Ends at the first item that doesn't satisfy `f` and closes the source */
+    takeWhile(f: (x: T) => boolean): Iter<T> {
+        return new TakeWhileIter(this, f);
+    }
+    /** Skips items until the first one that doesn't satisfy `f` */
+    skipWhile(f: (x: T) => boolean): Iter<T> {
+        return new SkipWhileIter(this, f);
+    }
+    /** Like `map`, but ends at the first `None` and closes the source */
+    mapWhile<U>(f: (x: T) => Opt<U>): Iter<U> {
+        return new ScanIter(this, undefined, (_, x) =>
+            f(x).map(y => [undefined, y]),
+        );
+    }
+    /** Groups the items into arrays of `n`, the last one may be shorter */
+    chunks(n: number): Iter<T[]> {
+        return new ChunksIter(this, n, false);
+    }
+    /** Groups the items into tuples of `n`, a shorter remainder is dropped */
+    arrayChunks<N extends number>(n: N): Iter<Tuple<T, N>> {
+        return adapted<Iter<Tuple<T, N>>>(new ChunksIter(this, n, true));
+    }
+    /** Every `n` consecutive items, each window is a new array */
+    windows(n: number): Iter<T[]> {
+        return new WindowsIter(this, n);
+    }
+    /** Groups runs of consecutive items whose keys are equal, see `equals` */
+    chunkBy<K>(key: (x: T) => K): Iter<T[]> {
+        return new ChunkByIter(this, key);
+    }
+    /** Threads `state` through `f`, which yields the next state and item or ends with `None`, closing the source */
+    scan<S, U>(state: S, f: (state: S, x: T) => Opt<[S, U]>): Iter<U> {
+        return new ScanIter(this, state, f);
+    }
+    /** Keeps the capabilities that `this` and all of `iters` have */
+    zip<U extends any[]>(
+        this: DoubleEndedIter<T> & ExactSizeIter<T>,
+        ...iters: {
+            [I in keyof U]: DoubleEndedIter<U[I]> & ExactSizeIter<U[I]>;
+        }
+    ): DoubleEndedIter<[T, ...U]> & ExactSizeIter<[T, ...U]>;
+    zip<U extends any[]>(
+        this: ExactSizeIter<T>,
+        ...iters: { [I in keyof U]: ExactSizeIter<U[I]> }
+    ): ExactSizeIter<[T, ...U]>;
+    zip<U extends any[]>(
+        ...iters: ConstructorParameters<typeof ZipIter<U>>
+    ): Iter<[T, ...U]>;
     zip<U extends any[]>(
         ...iters: ConstructorParameters<typeof ZipIter<U>>
     ): Iter<[T, ...U]> {
         return new ZipIter<[T, ...U]>(this, ...iters);
     }
     collect(): T[];
+    collect<K, V>(this: Iter<[K, V]>, c: MapConstructor): Map<K, V>;
+    collect(c: SetConstructor): Set<T>;
+    collect<K, V>(this: Iter<[K, V]>, c: typeof HashMap): HashMap<K, V>;
+    collect(c: typeof HashSet): HashSet<T>;
+    collect<K, V>(this: Iter<[K, V]>, c: typeof BTreeMap): BTreeMap<K, V>;
+    collect(c: typeof BTreeSet): BTreeSet<T>;
+    collect(c: typeof VecDeque): VecDeque<T>;
+    collect(c: typeof BinaryHeap): BinaryHeap<T>;
     collect<C>(c: { new (iter: Iter<T>): C }): C;
+    /** Preallocates the array when the size is known */
     collect<C>(c?: { new (iter: Iter<T>): C }): C | T[] {
-        return c === undefined ? [...this] : new c(this);
+        if (c !== undefined) return new c(this);
+
+        const [lower, upper] = this.sizeHint();
+        if (!upper.some || upper.value !== lower) return [...this];
+        const a = new Array<T>(lower);
+        let i = 0;
+        for (const x of this) a[i++] = x;
+        a.length = i;
+        return a;
+    }
+    /**
+     * Collects the `Ok` values, stops at the first `Err` and returns it.
+     * No intermediate array is created when collecting into `c`
+     */
+    collectResult<T, E>(this: Iter<Result<T, E>>): Result<T[], E>;
+    collectResult<K, V, E>(
+        this: Iter<Result<[K, V], E>>,
+        c: MapConstructor,
+    ): Result<Map<K, V>, E>;
+    collectResult<T, E>(
+        this: Iter<Result<T, E>>,
+        c: SetConstructor,
+    ): Result<Set<T>, E>;
+    collectResult<T, E, C>(
+        this: Iter<Result<T, E>>,
+        c: { new (iter: Iter<T>): C },
+    ): Result<C, E>;
+    collectResult<T, E, C>(
+        this: Iter<Result<T, E>>,
+        c?: { new (iter: Iter<T>): C },
+    ): Result<C | T[], E> {
+        const shunt = new ShuntIter(this, (res: Result<T, E>) => res.okValue());
+        const collected = c === undefined ? shunt.collect() : shunt.collect(c);
+        return shunt.residual.some
+            ? (shunt.residual.value as Err<E>)
+            : Ok(collected);
+    }
+    /** Collects the `Some` values, stops at the first `None` and returns it */
+    collectOpt<T>(this: Iter<Opt<T>>): Opt<T[]>;
+    collectOpt<K, V>(
+        this: Iter<Opt<[K, V]>>,
+        c: MapConstructor,
+    ): Opt<Map<K, V>>;
+    collectOpt<T>(this: Iter<Opt<T>>, c: SetConstructor): Opt<Set<T>>;
+    collectOpt<T, C>(this: Iter<Opt<T>>, c: { new (iter: Iter<T>): C }): Opt<C>;
+    collectOpt<T, C>(
+        this: Iter<Opt<T>>,
+        c?: { new (iter: Iter<T>): C },
+    ): Opt<C | T[]> {
+        const shunt = new ShuntIter(this, (opt: Opt<T>) => opt);
+        const collected = c === undefined ? shunt.collect() : shunt.collect(c);
+        return shunt.residual.some ? None : Some(collected);
+    }
+    /** Collects the Valid values, or every error if any is Invalid */
+    collectValidated<T, E>(this: Iter<Validated<T, E>>): Validated<T[], E>;
+    collectValidated<K, V, E>(
+        this: Iter<Validated<[K, V], E>>,
+        c: MapConstructor,
+    ): Validated<Map<K, V>, E>;
+    collectValidated<T, E>(
+        this: Iter<Validated<T, E>>,
+        c: SetConstructor,
+    ): Validated<Set<T>, E>;
+    collectValidated<T, E, C>(
+        this: Iter<Validated<T, E>>,
+        c: { new (iter: Iter<T>): C },
+    ): Validated<C, E>;
+    collectValidated<T, E, C>(
+        this: Iter<Validated<T, E>>,
+        c?: { new (iter: Iter<T>): C },
+    ): Validated<C | T[], E> {
+        const values = Validated.all<T[], E>([...this]);
+        if (!values.valid || c === undefined) return values;
+        return Valid(new c(iter(values.value)));
     }
     stream(): Stream<T> {
         return stream(this);
@@ -128,23 +417,69 @@ export abstract class Iter<T> implements Iterable<T>, Iterator<T> {
 
 class IterWrapper<T> extends Iter<T> {
     iter: Iterator<T, unknown>;
+    /** Set for arrays, which are read by index from both ends */
+    arr: readonly T[] | undefined;
+    front: number;
+    /**
+     * The end of the array, only fixed once it's read from the back or its
+     * `len` is taken. Until then items pushed while iterating are yielded
+     */
+    back: Opt<number>;
 
     constructor(a: Iterable<T>) {
         super();
         this.iter = a[Symbol.iterator]();
+        this.arr = Array.isArray(a) ? a : undefined;
+        this.front = 0;
+        this.back = None;
+    }
+
+    /** Only for arrays */
+    private end(): number {
+        return this.back.unwrapOr(this.arr!.length);
     }
 
     [Symbol.iterator](): Iterator<T, unknown> {
-        return this.iter;
+        return this.arr === undefined ? this.iter : this;
     }
     next(): IteratorResult<T, unknown> {
-        return this.iter.next();
+        if (this.arr === undefined) return this.iter.next();
+        return this.front < this.end()
+            ? { value: this.arr[this.front++]! }
+            : { done: true, value: undefined };
+    }
+    /** Only for arrays */
+    nextBack(): IteratorResult<T, unknown> {
+        if (this.arr === undefined) throw new TypeError("Not an array");
+        const back = this.end();
+        if (this.front >= back) return { done: true, value: undefined };
+        this.back = Some(back - 1);
+        return { value: this.arr[back - 1]! };
+    }
+    /** Only for arrays */
+    len(): number {
+        if (this.arr === undefined) throw new TypeError("Not an array");
+        this.back = Some(this.end());
+        return Math.max(0, this.back.value - this.front);
+    }
+    sizeHint(): [number, Opt<number>] {
+        if (this.arr === undefined) return sizeHintOf(this.iter);
+        const len = Math.max(0, this.end() - this.front);
+        return [len, Some(len)];
     }
     return(value: unknown): IteratorResult<T, unknown> {
-        return this.iter.return?.(value) ?? { done: true, value };
+        if (this.arr === undefined) {
+            return this.iter.return?.(value) ?? { done: true, value };
+        }
+        this.back = Some(this.front);
+        return { done: true, value };
     }
     throw(e: unknown): IteratorResult<T, unknown> {
-        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+        if (this.arr === undefined) {
+            return this.iter.throw?.(e) ?? { done: true, value: undefined };
+        }
+        this.back = Some(this.front);
+        return { done: true, value: undefined };
     }
 }
 
@@ -166,6 +501,28 @@ class TakeIter<T> extends Iter<T> {
         this.cnt--;
         return this.iter.next();
     }
+    /** Needs a double-ended, exact size source */
+    nextBack(): IteratorResult<T, unknown> {
+        const iter = this.iter as DoubleEndedIter<T> & ExactSizeIter<T>;
+        for (let extra = iter.len() - this.cnt; extra > 0; extra--) {
+            iter.nextBack();
+        }
+        if (this.cnt <= 0) return { done: true, value: undefined };
+        const res = iter.nextBack();
+        if (!res.done) this.cnt--;
+        return res;
+    }
+    /** Needs an exact size source */
+    len(): number {
+        return Math.min(this.cnt, (this.iter as ExactSizeIter<T>).len());
+    }
+    sizeHint(): [number, Opt<number>] {
+        const [lower, upper] = sizeHintOf(this.iter);
+        return [
+            Math.min(lower, this.cnt),
+            Some(upper.mapOr(this.cnt, n => Math.min(n, this.cnt))),
+        ];
+    }
     return(value: unknown): IteratorResult<T, unknown> {
         const res = this.iter.return?.(value) ?? { done: true, value };
         res.done ||= this.cnt <= 0;
@@ -195,6 +552,20 @@ class EnumerateIter<T> extends Iter<[number, T]> {
         const res = this.iter.next();
         return res.done ? res : { value: [this.ctr++, res.value] };
     }
+    /** Needs a double-ended, exact size source */
+    nextBack(): IteratorResult<[number, T], unknown> {
+        const iter = this.iter as DoubleEndedIter<T> & ExactSizeIter<T>;
+        const i = this.ctr + iter.len() - 1;
+        const res = iter.nextBack();
+        return res.done ? res : { value: [i, res.value] };
+    }
+    /** Needs an exact size source */
+    len(): number {
+        return (this.iter as ExactSizeIter<T>).len();
+    }
+    sizeHint(): [number, Opt<number>] {
+        return sizeHintOf(this.iter);
+    }
     return(value: unknown): IteratorResult<[number, T], unknown> {
         const res = this.iter.return?.(value) ?? { done: true, value };
         return res.done ? res : { value: [this.ctr++, res.value] };
@@ -223,6 +594,18 @@ class MapIter<T, U> extends Iter<U> {
         const res = this.iter.next();
         return res.done ? res : { value: this.f(res.value) };
     }
+    /** Needs a double-ended source */
+    nextBack(): IteratorResult<U, unknown> {
+        const res = (this.iter as DoubleEndedIter<T>).nextBack();
+        return res.done ? res : { value: this.f(res.value) };
+    }
+    /** Needs an exact size source */
+    len(): number {
+        return (this.iter as ExactSizeIter<T>).len();
+    }
+    sizeHint(): [number, Opt<number>] {
+        return sizeHintOf(this.iter);
+    }
     return(value: unknown): IteratorResult<U, unknown> {
         const res = this.iter.return?.(value) ?? { done: true, value };
         return res.done ? res : { value: this.f(res.value) };
@@ -311,26 +694,106 @@ class FilterMapIter<T, U> extends Iter<U> {
     }
 }
 
+/** Yields what `f` maps to `Some`, ends at the first `None` and keeps that item in `residual` */
+class ShuntIter<T, U> extends Iter<U> {
+    iter: Iterator<T, unknown>;
+    f: (x: T) => Opt<U>;
+    residual: Opt<T>;
+
+    constructor(a: Iterable<T>, f: (x: T) => Opt<U>) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.f = f;
+        this.residual = None;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<U, unknown> {
+        if (this.residual.some) return { done: true, value: undefined };
+
+        const res = this.iter.next();
+        if (res.done) return res;
+
+        const opt = this.f(res.value);
+        if (opt.some) return { value: opt.value };
+
+        this.residual = Some(res.value);
+        this.iter.return?.(undefined);
+        return { done: true, value: undefined };
+    }
+    return(value: unknown): IteratorResult<U, unknown> {
+        if (this.residual.some) return { done: true, value };
+        this.iter.return?.(value);
+        return { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<U, unknown> {
+        if (this.residual.some) return { done: true, value: undefined };
+        this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
 class ZipIter<T extends any[]> extends Iter<T> {
     iters: { [I in keyof T]: Iterator<T[I]> };
 
     constructor(...iters: { [I in keyof T]: Iterable<T[I]> }) {
         super();
-        this.iters = iters.map(iterable => iterable[Symbol.iterator]()) as any;
+        this.iters = iters.map(iterable =>
+            iterable[Symbol.iterator](),
+        ) as typeof this.iters;
     }
 
     [Symbol.iterator](): Iterator<T> {
         return this;
     }
     next(): IteratorResult<T, unknown> {
-        const value = [];
+        const value: unknown[] = [];
         let done = false;
         for (const iter of this.iters) {
             const res = iter.next();
             done = res.done || done;
             value.push(res.value);
         }
-        return { value, done } as any;
+        return done
+            ? { done: true, value: undefined }
+            : { done: false, value: value as T };
+    }
+    /** Needs double-ended, exact size sources, trims them to the same length */
+    nextBack(): IteratorResult<T, unknown> {
+        const iters = this.iters as (DoubleEndedIter<unknown> &
+            ExactSizeIter<unknown>)[];
+        const len = this.len();
+        const value: unknown[] = [];
+        let done = false;
+        for (const iter of iters) {
+            for (let extra = iter.len() - len; extra > 0; extra--) {
+                iter.nextBack();
+            }
+            const res = iter.nextBack();
+            done = res.done || done;
+            value.push(res.value);
+        }
+        return done
+            ? { done: true, value: undefined }
+            : { done: false, value: value as T };
+    }
+    /** Needs exact size sources */
+    len(): number {
+        const iters = this.iters as ExactSizeIter<unknown>[];
+        return Math.min(...iters.map(iter => iter.len()));
+    }
+    sizeHint(): [number, Opt<number>] {
+        let lower = Infinity;
+        let upper = Infinity;
+        for (const iter of this.iters as Iterator<unknown, unknown>[]) {
+            const [lo, hi] = sizeHintOf(iter);
+            lower = Math.min(lower, lo);
+            upper = Math.min(upper, hi.unwrapOr(Infinity));
+        }
+        return [lower, upper === Infinity ? None : Some(upper)];
     }
     return(value: unknown): IteratorResult<T, unknown> {
         for (const iter of this.iters) {
@@ -348,25 +811,29 @@ class ZipIter<T extends any[]> extends Iter<T> {
 
 class Range extends Iter<number> {
     curr: number;
-    end: number;
     step: number;
+    /** How many numbers are left */
+    count: number;
 
     constructor(end: number);
     constructor(begin: number, end?: number);
     constructor(begin: number, end?: number, step?: number);
     constructor(begin: number, end?: number, step?: number) {
         super();
-        this.curr = end === undefined ? 0 : begin;
-        this.end = end ?? begin;
-        this.step = step ?? (this.curr <= this.end ? 1 : -1);
+        if (end === undefined) [begin, end] = [0, begin];
+        this.curr = begin;
+        this.step = step ?? (begin <= end ? 1 : -1);
+        if (this.step === 0) throw new RangeError("Range step can't be 0");
+        this.count = Math.max(0, Math.ceil((end - begin) / this.step));
     }
 
     static inclusive(end: number): Range;
     static inclusive(begin: number, end?: number): Range;
     static inclusive(begin: number, end?: number, step?: number): Range;
     static inclusive(begin: number, end?: number, step?: number): Range {
+        if (end === undefined) [begin, end] = [0, begin];
         const r = new Range(begin, end, step);
-        r.end += r.step;
+        r.count = Math.max(0, Math.floor((end - begin) / r.step) + 1);
         return r;
     }
 
@@ -374,11 +841,22 @@ class Range extends Iter<number> {
         return this;
     }
     next(): IteratorResult<number, unknown> {
+        if (this.count <= 0) return { done: true, value: undefined };
+        const value = this.curr;
         this.curr += this.step;
-        return {
-            value: this.curr,
-            done: this.step < 0 === this.curr < this.end,
-        };
+        this.count--;
+        return { value };
+    }
+    nextBack(): IteratorResult<number, unknown> {
+        if (this.count <= 0) return { done: true, value: undefined };
+        this.count--;
+        return { value: this.curr + this.count * this.step };
+    }
+    len(): number {
+        return this.count;
+    }
+    sizeHint(): [number, Opt<number>] {
+        return [this.count, Some(this.count)];
     }
     return: undefined;
     throw: undefined;
@@ -398,31 +876,741 @@ class OnceIter<T> extends Iter<T> {
         return this;
     }
     next(): IteratorResult<T, unknown> {
-        return { value: this.value, done: this.done };
+        if (this.done) return { done: true, value: undefined };
+        this.done = true;
+        return { value: this.value };
+    }
+    nextBack(): IteratorResult<T, unknown> {
+        return this.next();
+    }
+    len(): number {
+        return this.done ? 0 : 1;
+    }
+    sizeHint(): [number, Opt<number>] {
+        return [this.len(), Some(this.len())];
     }
     return: undefined;
     throw: undefined;
 }
 
-/** Exclusive Range */
-export function range(end: number): Range;
-export function range(begin: number, end?: number): Range;
-export function range(begin: number, end?: number, step?: number): Range;
-export function range(begin: number, end?: number, step?: number): Range {
-    return new Range(begin, end, step);
+class PeekableIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    /** The result of the `next` call that `peek` made ahead of time */
+    peeked: Opt<IteratorResult<T, unknown>>;
+
+    constructor(a: Iterable<T>) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.peeked = None;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    peek(): Opt<T> {
+        if (!this.peeked.some) this.peeked = Some(this.iter.next());
+        const res = this.peeked.value;
+        return res.done ? None : Some(res.value);
+    }
+    nextIf(f: (x: T) => boolean): Opt<T> {
+        const opt = this.peek();
+        if (opt.some && f(opt.value)) this.peeked = None;
+        return opt.filter(f);
+    }
+    next(): IteratorResult<T, unknown> {
+        if (!this.peeked.some) return this.iter.next();
+        const res = this.peeked.value;
+        this.peeked = None;
+        return res;
+    }
+    /** Needs a double-ended source */
+    nextBack(): IteratorResult<T, unknown> {
+        if (this.peeked.some && this.peeked.value.done) {
+            return this.peeked.value;
+        }
+        const res = (this.iter as DoubleEndedIter<T>).nextBack();
+        if (!res.done || !this.peeked.some) return res;
+        return this.next();
+    }
+    /** Needs an exact size source */
+    len(): number {
+        const peeked = this.peeked.mapOr(0, res => (res.done ? 0 : 1));
+        return peeked + (this.iter as ExactSizeIter<T>).len();
+    }
+    sizeHint(): [number, Opt<number>] {
+        if (this.peeked.some && this.peeked.value.done) return [0, Some(0)];
+        const peeked = this.peeked.some ? 1 : 0;
+        const [lower, upper] = sizeHintOf(this.iter);
+        return [lower + peeked, upper.map(n => n + peeked)];
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        this.peeked = None;
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        this.peeked = None;
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
 }
 
-/** Inclusive Range */
-export function irange(end: number): Range;
-export function irange(begin: number, end?: number): Range;
-export function irange(begin: number, end?: number, step?: number): Range;
-export function irange(begin: number, end?: number, step?: number): Range {
-    return Range.inclusive(begin, end, step);
+class RevIter<T> extends Iter<T> {
+    iter: DoubleEndedIter<T>;
+
+    constructor(iter: DoubleEndedIter<T>) {
+        super();
+        this.iter = iter;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        return this.iter.nextBack();
+    }
+    nextBack(): IteratorResult<T, unknown> {
+        return this.iter.next();
+    }
+    /** Needs an exact size source */
+    len(): number {
+        return (this.iter as Iter<T> as ExactSizeIter<T>).len();
+    }
+    sizeHint(): [number, Opt<number>] {
+        return this.iter.sizeHint();
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
 }
 
-export const iter = <T>(a: Iterable<T>): IterWrapper<T> => {
-    return new IterWrapper(a);
-};
+class ChainIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    /** Not started until `iter` is done */
+    other: Opt<Iterable<T>>;
+
+    constructor(a: Iterable<T>, b: Iterable<T>) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.other = Some(b);
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        while (true) {
+            const res = this.iter.next();
+            if (!res.done || !this.other.some) return res;
+            this.iter = this.other.value[Symbol.iterator]();
+            this.other = None;
+        }
+    }
+    sizeHint(): [number, Opt<number>] {
+        const [lower, upper] = sizeHintOf(this.iter);
+        if (!this.other.some) return [lower, upper];
+        const other = this.other.value;
+        const [otherLower, otherUpper]: [number, Opt<number>] =
+            other instanceof Iter ? other.sizeHint() : [0, None];
+        return [lower + otherLower, upper.and(n => otherUpper.map(m => n + m))];
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        this.other = None;
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        this.other = None;
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class FlatMapIter<T, U> extends Iter<U> {
+    iter: Iterator<T, unknown>;
+    f: (x: T) => Flattenable<U>;
+    inner: Opt<Iterator<U, unknown>>;
+
+    constructor(a: Iterable<T>, f: (x: T) => Flattenable<U>) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.f = f;
+        this.inner = None;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<U, unknown> {
+        while (true) {
+            if (this.inner.some) {
+                const res = this.inner.value.next();
+                if (!res.done) return res;
+                this.inner = None;
+            }
+            const res = this.iter.next();
+            if (res.done) return res;
+            this.inner = Some(
+                (this.f(res.value) as Iterable<U>)[Symbol.iterator](),
+            );
+        }
+    }
+    return(value: unknown): IteratorResult<U, unknown> {
+        if (this.inner.some) this.inner.value.return?.(value);
+        this.inner = None;
+        this.iter.return?.(value);
+        return { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<U, unknown> {
+        if (this.inner.some) this.inner.value.return?.(undefined);
+        this.inner = None;
+        this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class SkipIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    /** How many items are still to be skipped */
+    cnt: number;
+
+    constructor(a: Iterable<T>, cnt: number) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.cnt = Math.max(0, Math.floor(cnt));
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        for (; this.cnt > 0; this.cnt--) {
+            const res = this.iter.next();
+            if (res.done) {
+                this.cnt = 0;
+                return res;
+            }
+        }
+        return this.iter.next();
+    }
+    /** Needs a double-ended, exact size source */
+    nextBack(): IteratorResult<T, unknown> {
+        if (this.len() <= 0) return { done: true, value: undefined };
+        return (this.iter as DoubleEndedIter<T>).nextBack();
+    }
+    /** Needs an exact size source */
+    len(): number {
+        return Math.max(0, (this.iter as ExactSizeIter<T>).len() - this.cnt);
+    }
+    sizeHint(): [number, Opt<number>] {
+        const [lower, upper] = sizeHintOf(this.iter);
+        return [
+            Math.max(0, lower - this.cnt),
+            upper.map(n => Math.max(0, n - this.cnt)),
+        ];
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        this.cnt = 0;
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        this.cnt = 0;
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class StepByIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    step: number;
+    first: boolean;
+
+    constructor(a: Iterable<T>, step: number) {
+        super();
+        if (!Number.isInteger(step) || step < 1) {
+            throw new RangeError("Step must be a positive integer");
+        }
+        this.iter = a[Symbol.iterator]();
+        this.step = step;
+        this.first = true;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        if (this.first) {
+            this.first = false;
+            return this.iter.next();
+        }
+        for (let i = 1; i < this.step; i++) {
+            const res = this.iter.next();
+            if (res.done) return res;
+        }
+        return this.iter.next();
+    }
+    sizeHint(): [number, Opt<number>] {
+        const [lower, upper] = sizeHintOf(this.iter);
+        const steps = (n: number) =>
+            this.first ? Math.ceil(n / this.step) : Math.floor(n / this.step);
+        return [steps(lower), upper.map(steps)];
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class CycleIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    /** The items seen during the first pass */
+    cache: T[];
+    /** Whether the first pass is over */
+    cached: boolean;
+    i: number;
+
+    constructor(a: Iterable<T>) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.cache = [];
+        this.cached = false;
+        this.i = 0;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        if (!this.cached) {
+            const res = this.iter.next();
+            if (!res.done) {
+                this.cache.push(res.value);
+                return res;
+            }
+            this.cached = true;
+        }
+        if (this.cache.length === 0) return { done: true, value: undefined };
+        const value = this.cache[this.i]!;
+        this.i = (this.i + 1) % this.cache.length;
+        return { value };
+    }
+    sizeHint(): [number, Opt<number>] {
+        if (this.cache.length !== 0) return [Infinity, None];
+        const [lower, upper] = sizeHintOf(this.iter);
+        return [lower === 0 ? 0 : Infinity, upper.filter(n => n === 0)];
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        const cached = this.cached;
+        this.cache = [];
+        this.cached = true;
+        if (cached) return { done: true, value };
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        const cached = this.cached;
+        this.cache = [];
+        this.cached = true;
+        if (cached) return { done: true, value: undefined };
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class IntersperseIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    sep: T;
+    started: boolean;
+    /** The item that comes after the separator being yielded */
+    nextItem: Opt<T>;
+
+    constructor(a: Iterable<T>, sep: T) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.sep = sep;
+        this.started = false;
+        this.nextItem = None;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        if (this.nextItem.some) {
+            const value = this.nextItem.value;
+            this.nextItem = None;
+            return { value };
+        }
+        const res = this.iter.next();
+        if (res.done || !this.started) {
+            this.started = true;
+            return res;
+        }
+        this.nextItem = Some(res.value);
+        return { value: this.sep };
+    }
+    sizeHint(): [number, Opt<number>] {
+        const [lower, upper] = sizeHintOf(this.iter);
+        const pending = this.nextItem.some ? 1 : 0;
+        const withSeps = (n: number) =>
+            pending + (this.started ? 2 * n : Math.max(0, 2 * n - 1));
+        return [withSeps(lower), upper.map(withSeps)];
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        this.nextItem = None;
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        this.nextItem = None;
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class FuseIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    done: boolean;
+
+    constructor(a: Iterable<T>) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.done = false;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        if (this.done) return { done: true, value: undefined };
+        const res = this.iter.next();
+        this.done = res.done ?? false;
+        return res;
+    }
+    sizeHint(): [number, Opt<number>] {
+        return this.done ? [0, Some(0)] : sizeHintOf(this.iter);
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        if (this.done) return { done: true, value };
+        this.done = true;
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        if (this.done) return { done: true, value: undefined };
+        this.done = true;
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class TakeWhileIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    f: (x: T) => boolean;
+    done: boolean;
+
+    constructor(a: Iterable<T>, f: (x: T) => boolean) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.f = f;
+        this.done = false;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        if (this.done) return { done: true, value: undefined };
+
+        const res = this.iter.next();
+        if (res.done) {
+            this.done = true;
+            return res;
+        }
+        if (this.f(res.value)) return res;
+
+        this.done = true;
+        this.iter.return?.(undefined);
+        return { done: true, value: undefined };
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        if (this.done) return { done: true, value };
+        this.done = true;
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        if (this.done) return { done: true, value: undefined };
+        this.done = true;
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class SkipWhileIter<T> extends Iter<T> {
+    iter: Iterator<T, unknown>;
+    f: (x: T) => boolean;
+    skipping: boolean;
+
+    constructor(a: Iterable<T>, f: (x: T) => boolean) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.f = f;
+        this.skipping = true;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T, unknown> {
+        if (!this.skipping) return this.iter.next();
+
+        let res;
+        do {
+            res = this.iter.next();
+        } while (!res.done && this.f(res.value));
+        this.skipping = false;
+        return res;
+    }
+    return(value: unknown): IteratorResult<T, unknown> {
+        return this.iter.return?.(value) ?? { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T, unknown> {
+        return this.iter.throw?.(e) ?? { done: true, value: undefined };
+    }
+}
+
+class ScanIter<T, S, U> extends Iter<U> {
+    iter: Iterator<T, unknown>;
+    state: S;
+    f: (state: S, x: T) => Opt<[S, U]>;
+    done: boolean;
+
+    constructor(a: Iterable<T>, state: S, f: (state: S, x: T) => Opt<[S, U]>) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.state = state;
+        this.f = f;
+        this.done = false;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<U, unknown> {
+        if (this.done) return { done: true, value: undefined };
+
+        const res = this.iter.next();
+        if (res.done) {
+            this.done = true;
+            return res;
+        }
+        const opt = this.f(this.state, res.value);
+        if (opt.some) {
+            [this.state] = opt.value;
+            return { value: opt.value[1] };
+        }
+
+        this.done = true;
+        this.iter.return?.(undefined);
+        return { done: true, value: undefined };
+    }
+    return(value: unknown): IteratorResult<U, unknown> {
+        if (this.done) return { done: true, value };
+        this.done = true;
+        this.iter.return?.(value);
+        return { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<U, unknown> {
+        if (this.done) return { done: true, value: undefined };
+        this.done = true;
+        this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class ChunksIter<T> extends Iter<T[]> {
+    iter: Iterator<T, unknown>;
+    n: number;
+    /** Whether a shorter last chunk is dropped */
+    exact: boolean;
+
+    constructor(a: Iterable<T>, n: number, exact: boolean) {
+        super();
+        if (!Number.isInteger(n) || n < 1) {
+            throw new RangeError("Chunk size must be a positive integer");
+        }
+        this.iter = a[Symbol.iterator]();
+        this.n = n;
+        this.exact = exact;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T[], unknown> {
+        const chunk = [];
+        while (chunk.length < this.n) {
+            const res = this.iter.next();
+            if (res.done) {
+                if (chunk.length === 0 || this.exact) return res;
+                break;
+            }
+            chunk.push(res.value);
+        }
+        return { value: chunk };
+    }
+    sizeHint(): [number, Opt<number>] {
+        const [lower, upper] = sizeHintOf(this.iter);
+        const chunks = (n: number) =>
+            this.exact ? Math.floor(n / this.n) : Math.ceil(n / this.n);
+        return [chunks(lower), upper.map(chunks)];
+    }
+    return(value: unknown): IteratorResult<T[], unknown> {
+        this.iter.return?.(value);
+        return { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T[], unknown> {
+        this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class WindowsIter<T> extends Iter<T[]> {
+    iter: Iterator<T, unknown>;
+    n: number;
+    /** A ring buffer of the last `n` items, the oldest is at `head` once full */
+    buf: T[];
+    head: number;
+
+    constructor(a: Iterable<T>, n: number) {
+        super();
+        if (!Number.isInteger(n) || n < 1) {
+            throw new RangeError("Window size must be a positive integer");
+        }
+        this.iter = a[Symbol.iterator]();
+        this.n = n;
+        this.buf = [];
+        this.head = 0;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T[], unknown> {
+        do {
+            const res = this.iter.next();
+            if (res.done) return res;
+            if (this.buf.length < this.n) {
+                this.buf.push(res.value);
+            } else {
+                this.buf[this.head] = res.value;
+                this.head = (this.head + 1) % this.n;
+            }
+        } while (this.buf.length < this.n);
+        const window = new Array<T>(this.n);
+        for (let i = 0; i < this.n; i++) {
+            window[i] = this.buf[(this.head + i) % this.n]!;
+        }
+        return { value: window };
+    }
+    sizeHint(): [number, Opt<number>] {
+        const [lower, upper] = sizeHintOf(this.iter);
+        const missing = this.n - Math.min(this.buf.length, this.n - 1);
+        const windows = (n: number) => Math.max(0, n - missing + 1);
+        return [windows(lower), upper.map(windows)];
+    }
+    return(value: unknown): IteratorResult<T[], unknown> {
+        this.iter.return?.(value);
+        return { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T[], unknown> {
+        this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class ChunkByIter<T, K> extends Iter<T[]> {
+    iter: Iterator<T, unknown>;
+    key: (x: T) => K;
+    /** The key and items of the run that's being read */
+    chunk: Opt<[K, T[]]>;
+
+    constructor(a: Iterable<T>, key: (x: T) => K) {
+        super();
+        this.iter = a[Symbol.iterator]();
+        this.key = key;
+        this.chunk = None;
+    }
+
+    [Symbol.iterator](): this {
+        return this;
+    }
+
+    next(): IteratorResult<T[], unknown> {
+        while (true) {
+            const res = this.iter.next();
+            if (res.done) {
+                if (!this.chunk.some) return res;
+                const [, chunk] = this.chunk.value;
+                this.chunk = None;
+                return { value: chunk };
+            }
+
+            const k = this.key(res.value);
+            if (!this.chunk.some) {
+                this.chunk = Some([k, [res.value]]);
+                continue;
+            }
+            const [key, chunk] = this.chunk.value;
+            if (equals(key, k)) {
+                chunk.push(res.value);
+            } else {
+                this.chunk = Some([k, [res.value]]);
+                return { value: chunk };
+            }
+        }
+    }
+    return(value: unknown): IteratorResult<T[], unknown> {
+        this.chunk = None;
+        this.iter.return?.(value);
+        return { done: true, value };
+    }
+    throw(e: unknown): IteratorResult<T[], unknown> {
+        this.chunk = None;
+        this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+/** Exclusive Range */
+export function range(end: number): Range;
+export function range(begin: number, end?: number): Range;
+export function range(begin: number, end?: number, step?: number): Range;
+export function range(begin: number, end?: number, step?: number): Range {
+    return new Range(begin, end, step);
+}
+
+/** Inclusive Range */
+export function irange(end: number): Range;
+export function irange(begin: number, end?: number): Range;
+export function irange(begin: number, end?: number, step?: number): Range;
+export function irange(begin: number, end?: number, step?: number): Range {
+    return Range.inclusive(begin, end, step);
+}
+
+/** Arrays are double-ended and exact size */
+export function iter<T>(a: readonly T[]): DoubleEndedIter<T> & ExactSizeIter<T>;
+export function iter<T>(a: Iterable<T>): Iter<T>;
+export function iter<T>(a: Iterable<T>): Iter<T> {
+    return new IterWrapper(a);
+}
 iter.Iter = Iter;
 iter.zip = <T extends any[]>(
     ...iters: ConstructorParameters<typeof ZipIter<T>>
@@ -0,0 +1,137 @@
+import { Result, Ok, Err } from "./result.js";
+import { Opt, Some, None } from "./option.js";
+import { Variant } from "./enum.js";
+import type { If, Match } from "./utils.js";
+
+/** How deep patterns may look into nested values */
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+type IsNever<T> = [T] extends [never] ? true : false;
+
+/** The tag of a `Result`, an `Opt` or a `Variant`, `never` for any other value */
+export type Tag<V> = V extends Variant<infer K, any>
+    ? K
+    : V extends unknown
+    ? Match<
+          V,
+          [
+              [Ok<any>, "Ok"],
+              [Err<any>, "Err"],
+              [Some<any>, "Some"],
+              [None, "None"],
+          ]
+      >
+    : never;
+
+type Payload<V> = V extends { value: infer X } ? X : never;
+
+/** Every tag path that fully describes a shape of `V`, like `["Ok", "Some"]` */
+export type Cases<V, D extends number = 7> = V extends unknown
+    ? If<
+          IsNever<Tag<V>> extends true ? true : IsNever<D>,
+          [],
+          Tag<V> extends "None"
+              ? ["None"]
+              : [Tag<V>, ...Cases<Payload<V>, Depth[D]>]
+      >
+    : never;
+
+type Prefixes<C> = C extends [any, ...any[]]
+    ? C | (C extends [...infer H, any] ? Prefixes<H> : never)
+    : never;
+
+/** A tag path that `match(value).with` accepts */
+export type Pattern<V> = Prefixes<Cases<V>>;
+
+/** The value a pattern binds, `Ok(Some(x))` binds `x` */
+export type At<V, P> = P extends [infer K, ...infer Rest]
+    ? V extends unknown
+        ? Tag<V> extends K
+            ? At<Payload<V>, Rest>
+            : never
+        : never
+    : V;
+
+type Arm = [string[], (x: any) => unknown];
+
+function tagOf(x: unknown): string | undefined {
+    if (Result.is(x)) return x.ok ? "Ok" : "Err";
+    if (Opt.is(x)) return x.some ? "Some" : "None";
+    if (x instanceof Variant) return x.tag;
+    return undefined;
+}
+
+/**
+ * Built by `match`, `R` is the union of the arms' return types and `Rem` are
+ * the cases no arm handles yet
+ */
+export class Matcher<V, R = never, Rem = Cases<V>> {
+    readonly value: V;
+    readonly arms: Arm[];
+
+    /** INTERNAL DETAIL */
+    constructor(value: V, arms: Arm[]) {
+        this.value = value;
+        this.arms = arms;
+    }
+
+    /** Adds an arm for a tag path, `["Ok", "Some"]` matches `Ok(Some(x))` */
+    with<const P extends Pattern<V>, U>(
+        pattern: P,
+        f: (x: At<V, P>) => U,
+    ): Matcher<V, R | U, Exclude<Rem, [...P, ...any[]]>>;
+    /** Adds an arm for a single tag, same as `with([tag], f)` */
+    with<const K extends Pattern<V>[0], U>(
+        tag: K,
+        f: (x: At<V, [K]>) => U,
+    ): Matcher<V, R | U, Exclude<Rem, [K, ...any[]]>>;
+    with(
+        pattern: string | string[],
+        f: (x: any) => unknown,
+    ): Matcher<V, any, any> {
+        const path = typeof pattern === "string" ? [pattern] : pattern;
+        return new Matcher(this.value, [...this.arms, [path, f]]);
+    }
+
+    /** Runs the first matching arm, only compiles once every case is handled */
+    exhaustive(...missing: If<IsNever<Rem>, [], [missing: Rem]>): R;
+    exhaustive(): R {
+        const res = this.run();
+        if (res.some) return res.value;
+        throw new Error("No pattern matched the value");
+    }
+
+    /** Runs the first matching arm, or `f` if none matches */
+    otherwise<U>(f: (x: V) => U): R | U {
+        const res = this.run();
+        return res.some ? res.value : f(this.value);
+    }
+
+    run(): Opt<R> {
+        arms: for (const [path, f] of this.arms) {
+            let x: unknown = this.value;
+            for (const tag of path) {
+                if (tagOf(x) !== tag) continue arms;
+                x = (x as { value: unknown }).value;
+            }
+            return Some(f(x) as R);
+        }
+        return None;
+    }
+}
+
+/**
+ * Matches nested `Result`s, `Opt`s and enum `Variant`s by tag paths, checked for
+ * exhaustiveness at compile time:
+ * ```ts
+ * match(res)
+ *     .with(["Ok", "Some"], x => x)
+ *     .with(["Ok", "None"], () => 0)
+ *     .with("Err", e => -1)
+ *     .exhaustive();
+ * ```
+ */
+export function match<V>(value: V): Matcher<V> {
+    return new Matcher(value, []);
+}
+export default match;
@@ -0,0 +1,13 @@
+import { Readable } from "node:stream";
+import type { Stream } from "./stream.js";
+
+/**
+ * An object mode Node.js `Readable` that pulls from `s`, destroying it
+ * calls `return`, or `throw` when destroyed with an error
+ */
+export function toNodeReadable<T>(
+    s: Stream<T>,
+    highWaterMark: number = 1,
+): Readable {
+    return Readable.from(s, { objectMode: true, highWaterMark });
+}
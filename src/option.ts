@@ -1,12 +1,26 @@
 import iter, { Iter } from "./iter.js";
-import { Result, Ok, Err } from "./result.js";
-import type { If } from "./utils.js";
+import { Result, Ok, Err, AsyncResult } from "./result.js";
+import {
+    eq,
+    cmp,
+    hash,
+    equals,
+    compare,
+    hashCode,
+    hashCombine,
+    type Ord,
+    type Hash,
+    type Ordering,
+} from "./cmp.js";
+import type { Awaitable, If } from "./utils.js";
 
 export type Some<T> = OptPart<true, T>;
 export type None = OptPart<false, never>;
 export type Opt<T> = Some<T> | None;
+/** The JSON form of an `Opt`, see `Opt.reviver` */
+export type OptJSON<T> = { $opt: "Some"; value: T } | { $opt: "None" };
 
-class OptPart<O extends boolean, T> {
+class OptPart<O extends boolean, T> implements Ord, Hash {
     readonly some: If<O, true, false>;
     readonly value: If<O, T, undefined>;
 
@@ -42,12 +56,22 @@ class OptPart<O extends boolean, T> {
     [Symbol.iterator]<T>(this: Opt<T>): Iter<T> {
         return this.iter();
     }
+    /** Used by `Opt.gen`: `yield* opt.try()` evaluates to the `Some` value or yields `None` */
+    *try<T>(this: Opt<T>): Generator<None, T, unknown> {
+        if (!this.some) {
+            yield None;
+            throw new Error("Opt.gen resumed after a None");
+        }
+        return this.value;
+    }
     iter<T>(this: Opt<T>): Iter<T> {
         return this.some ? iter.once(this.value) : iter.never;
     }
 
-    async await<T>(this: Opt<Promise<T>>): Promise<Opt<T>> {
-        return this.some ? Some(await this.value) : this;
+    await<T>(this: Opt<T>): AsyncOpt<Awaited<T>> {
+        return new AsyncOpt(
+            this.some ? Promise.resolve(this.value).then(Some) : this,
+        );
     }
 
     and<T, U>(this: Opt<T>, o: Opt<U> | ((x: T) => Opt<U>)): Opt<U> {
@@ -117,20 +141,330 @@ class OptPart<O extends boolean, T> {
     okOrElse<T, E>(this: Opt<T>, err: () => E): Result<T, E> {
         return this.some ? Ok(this.value) : Err(err());
     }
+    toNullable<T>(this: Opt<T>): T | null {
+        return this.some ? this.value : null;
+    }
+    toUndefined<T>(this: Opt<T>): T | undefined {
+        return this.some ? this.value : undefined;
+    }
+
+    match<T, A, B>(
+        this: Opt<T>,
+        arms: { Some: (x: T) => A; None: () => B },
+    ): A | B {
+        return this.some ? arms.Some(this.value) : arms.None();
+    }
+
+    equals<T>(this: Opt<T>, other: Opt<T>): boolean {
+        return equals(this, other);
+    }
+    /** `None` is less than any `Some` */
+    compare<T>(this: Opt<T>, other: Opt<T>): Ordering {
+        return compare(this, other);
+    }
+    [eq](other: unknown): boolean {
+        return (
+            Opt.is(other) &&
+            this.some === other.some &&
+            equals(this.value, other.value)
+        );
+    }
+    [cmp](other: unknown): Ordering {
+        if (!Opt.is(other))
+            throw new TypeError("Can't compare an Opt with a non-Opt");
+        if (this.some !== other.some) return this.some ? 1 : -1;
+        return this.some ? compare(this.value, other.value) : 0;
+    }
+    [hash](): number {
+        return this.some ? hashCombine(1, hashCode(this.value)) : 0;
+    }
+
+    /** `Some(1)` becomes `{"$opt":"Some","value":1}` and `None` `{"$opt":"None"}` */
+    toJSON<T>(this: Opt<T>): OptJSON<T> {
+        return this.some
+            ? { $opt: "Some", value: this.value }
+            : { $opt: "None" };
+    }
 
     transpose<T, E>(this: Opt<Result<T, E>>): Result<Opt<T>, E> {
         return this.some ? this.value.map(Some) : Ok(None);
     }
 }
 
+/**
+ * A `PromiseLike` of an `Opt` with the methods of `Opt`, every callback may
+ * return a `PromiseLike`
+ */
+export class AsyncOpt<T> implements PromiseLike<Opt<T>> {
+    readonly promise: Promise<Opt<T>>;
+
+    constructor(opt: Awaitable<Opt<T>>) {
+        this.promise = Promise.resolve(opt);
+    }
+
+    then<A = Opt<T>, B = never>(
+        onfulfilled?: ((opt: Opt<T>) => A | PromiseLike<A>) | null,
+        onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+    ): Promise<A | B> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    and<U>(o: Awaitable<Opt<U>> | ((x: T) => Awaitable<Opt<U>>)): AsyncOpt<U> {
+        return new AsyncOpt(
+            this.promise.then(opt =>
+                !opt.some ? opt : typeof o === "function" ? o(opt.value) : o,
+            ),
+        );
+    }
+
+    or(o: Awaitable<Opt<T>> | (() => Awaitable<Opt<T>>)): AsyncOpt<T> {
+        return new AsyncOpt(
+            this.promise.then(opt =>
+                opt.some ? opt : typeof o === "function" ? o() : o,
+            ),
+        );
+    }
+
+    xor(o: Awaitable<Opt<T>>): AsyncOpt<T> {
+        return new AsyncOpt(this.promise.then(async opt => opt.xor(await o)));
+    }
+
+    filter(predicate: (x: T) => Awaitable<boolean>): AsyncOpt<T> {
+        return new AsyncOpt(
+            this.promise.then(async opt =>
+                opt.some && (await predicate(opt.value)) ? opt : None,
+            ),
+        );
+    }
+
+    map<U>(f: (x: T) => Awaitable<U>): AsyncOpt<U> {
+        return new AsyncOpt(
+            this.promise.then(async opt =>
+                opt.some ? Some<U>(await f(opt.value)) : opt,
+            ),
+        );
+    }
+
+    /** UNSOUND: uses `as` internally */
+    castMap<U>(): AsyncOpt<U> {
+        return this as unknown as AsyncOpt<U>;
+    }
+
+    /** Rejects with the error, may be used like `.unwrap()` in Rust */
+    async throw(): Promise<T> {
+        return (await this.promise).throw();
+    }
+
+    async unwrap(msg?: string): Promise<T> {
+        return (await this.promise).unwrap(msg);
+    }
+
+    async unwrapOr(def: T): Promise<T> {
+        return (await this.promise).unwrapOr(def);
+    }
+
+    async unwrapOrElse(def: () => Awaitable<T>): Promise<T> {
+        const opt = await this.promise;
+        return opt.some ? opt.value : await def();
+    }
+
+    async mapOr<U>(def: U, f: (x: T) => Awaitable<U>): Promise<U> {
+        const opt = await this.promise;
+        return opt.some ? await f(opt.value) : def;
+    }
+
+    async mapOrElse<U>(
+        def: () => Awaitable<U>,
+        f: (x: T) => Awaitable<U>,
+    ): Promise<U> {
+        const opt = await this.promise;
+        return opt.some ? await f(opt.value) : await def();
+    }
+
+    async match<A, B>(arms: {
+        Some: (x: T) => Awaitable<A>;
+        None: () => Awaitable<B>;
+    }): Promise<A | B> {
+        return await (await this.promise).match(arms);
+    }
+
+    okOr<E>(err: E): AsyncResult<T, E> {
+        return new AsyncResult(this.promise.then(opt => opt.okOr(err)));
+    }
+
+    okOrElse<E>(err: () => Awaitable<E>): AsyncResult<T, E> {
+        return new AsyncResult(
+            this.promise.then(async opt =>
+                opt.some ? Ok(opt.value) : Err(await err()),
+            ),
+        );
+    }
+
+    transpose<T, E>(this: AsyncOpt<Result<T, E>>): AsyncResult<Opt<T>, E> {
+        return new AsyncResult(this.promise.then(opt => opt.transpose()));
+    }
+}
+
 export function Some<T>(value: T): Some<T> {
     return new OptPart(true, value);
 }
 export const None: None = new OptPart<false, never>(false, undefined);
 
+/** `None` for `null` and `undefined`, `Some` otherwise */
+function from<T>(x: T): Opt<NonNullable<T>> {
+    return x === null || x === undefined ? None : Some(x as NonNullable<T>);
+}
+
+type Keys<T> = T extends readonly unknown[] ? number : keyof T;
+type Step<T, K> = K extends keyof T
+    ? T[K]
+    : T extends readonly (infer X)[]
+    ? X
+    : never;
+
+/** Checks every key of an `Opt.get` path, an invalid key becomes `never` */
+export type PathOf<T, P> = P extends [infer K, ...infer Rest]
+    ? [K & Keys<NonNullable<T>>, ...PathOf<Step<NonNullable<T>, K>, Rest>]
+    : [];
+/** The type at the end of an `Opt.get` path */
+export type PathValue<T, P> = P extends [infer K, ...infer Rest]
+    ? PathValue<Step<NonNullable<T>, K>, Rest>
+    : T;
+
+/**
+ * Follows `path` into `obj`, `None` if any step is `null`, `undefined` or not an object:
+ * ```ts
+ * Opt.get(config, "servers", 0, "port"); // Opt<number>
+ * ```
+ */
+function get<T, const P extends PropertyKey[]>(
+    obj: T,
+    ...path: P & PathOf<T, P>
+): Opt<NonNullable<PathValue<T, P>>> {
+    let x: unknown = obj;
+    for (const key of path) {
+        if (typeof x !== "object" || x === null) return None;
+        x = (x as Record<PropertyKey, unknown>)[key];
+    }
+    return from(x as PathValue<T, P>);
+}
+
+/** Like `Map.get`, but a stored `undefined` is `Some(undefined)` */
+function mapGet<K, V>(
+    map: { has(key: K): boolean; get(key: K): V | undefined },
+    key: K,
+): Opt<V> {
+    return map.has(key) ? Some(map.get(key) as V) : None;
+}
+
+/** Like `Array.at`, negative indices count from the end */
+function at<T>(arr: ArrayLike<T>, i: number): Opt<T> {
+    i = Math.trunc(i) || 0;
+    if (i < 0) i += arr.length;
+    return 0 <= i && i < arr.length ? Some(arr[i]!) : None;
+}
+
+function findIndex<T>(
+    arr: readonly T[],
+    predicate: (x: T, i: number) => boolean,
+): Opt<number> {
+    const i = arr.findIndex(predicate);
+    return i === -1 ? None : Some(i);
+}
+
+function find<T, U extends T>(
+    arr: readonly T[],
+    predicate: (x: T, i: number) => x is U,
+): Opt<U>;
+function find<T>(
+    arr: readonly T[],
+    predicate: (x: T, i: number) => boolean,
+): Opt<T>;
+function find<T>(
+    arr: readonly T[],
+    predicate: (x: T, i: number) => boolean,
+): Opt<T> {
+    return findIndex(arr, predicate).map(i => arr[i]!);
+}
+
+/**
+ * Runs `f` until it yields `None`, `yield* opt.try()` works like `opt?` in Rust:
+ * ```ts
+ * Opt.gen(function* () {
+ *     const a = yield* first(xs).try();
+ *     return a + (yield* first(ys).try());
+ * });
+ * ```
+ * It's `yield* opt.try()` rather than `yield* opt` because iterating an `Opt`
+ * yields its `Some` value, like `opt.iter()`
+ */
+function gen<T>(f: () => Generator<None, T, unknown>): Opt<T> {
+    const it = f();
+    const res = it.next();
+    if (res.done) return Some(res.value);
+    it.return(undefined as T);
+    return None;
+}
+
+/** Like `Opt.gen`, but `f` may also `await` */
+function genAsync<T>(f: () => AsyncGenerator<None, T, unknown>): AsyncOpt<T> {
+    return new AsyncOpt(
+        (async () => {
+            const it = f();
+            const res = await it.next();
+            if (res.done) return Some(res.value);
+            await it.return(undefined as T);
+            return None;
+        })(),
+    );
+}
+
+/** Collects the `Some` values of `iterable`, see `Iter.collectOpt` */
+function fromIter<T>(iterable: Iterable<Opt<T>>): Opt<T[]>;
+function fromIter<K, V>(
+    iterable: Iterable<Opt<[K, V]>>,
+    c: MapConstructor,
+): Opt<Map<K, V>>;
+function fromIter<T>(
+    iterable: Iterable<Opt<T>>,
+    c: SetConstructor,
+): Opt<Set<T>>;
+function fromIter<T, C>(
+    iterable: Iterable<Opt<T>>,
+    c: { new (iter: Iter<T>): C },
+): Opt<C>;
+function fromIter<T, C>(
+    iterable: Iterable<Opt<T>>,
+    c?: { new (iter: Iter<T>): C },
+): Opt<C | T[]> {
+    return c === undefined
+        ? iter(iterable).collectOpt()
+        : iter(iterable).collectOpt(c);
+}
+
 export const Opt = {
     Some,
     None,
+    is(x: unknown): x is Opt<unknown> {
+        return x instanceof OptPart;
+    },
+    from,
+    get,
+    mapGet,
+    at,
+    find,
+    findIndex,
+    gen,
+    genAsync,
+    fromIter,
+    /** A `JSON.parse` reviver that turns `toJSON` output back into `Opt`s */
+    reviver(_key: string, value: unknown): unknown {
+        if (typeof value !== "object" || value === null) return value;
+        const json = value as { $opt?: unknown; value?: unknown };
+        if (json.$opt === "Some") return Some(json.value);
+        if (json.$opt === "None") return None;
+        return value;
+    },
     zip<T extends any[]>(...opts: { [I in keyof T]: Opt<T[I]> }): Opt<T> {
         const a = [];
         for (const o of opts) {
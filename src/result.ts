@@ -1,12 +1,29 @@
 import iter, { Iter } from "./iter.js";
-import { Opt, Some, None } from "./option.js";
-import type { If } from "./utils.js";
+import { Opt, Some, None, AsyncOpt } from "./option.js";
+import { ContextError } from "./error.js";
+import {
+    eq,
+    cmp,
+    hash,
+    equals,
+    compare,
+    hashCode,
+    hashCombine,
+    type Ord,
+    type Hash,
+    type Ordering,
+} from "./cmp.js";
+import type { Awaitable, If } from "./utils.js";
 
 export type Ok<T> = ResultPart<true, T, never>;
 export type Err<E> = ResultPart<false, never, E>;
 export type Result<T, E> = Ok<T> | Err<E>;
+/** The JSON form of a `Result`, see `Result.reviver` */
+export type ResultJSON<T, E> =
+    | { $result: "Ok"; value: T }
+    | { $result: "Err"; value: E };
 
-class ResultPart<O extends boolean, T, E> {
+class ResultPart<O extends boolean, T, E> implements Ord, Hash {
     /** A boolean that asserts that this value's either Ok or Err */
     readonly ok: If<O, true, false>;
     /** The value */
@@ -42,6 +59,14 @@ class ResultPart<O extends boolean, T, E> {
     [Symbol.iterator]<T, E>(this: Result<T, E>): Iter<T> {
         return this.iter();
     }
+    /** Used by `Result.gen`: `yield* res.try()` evaluates to the `Ok` value or yields the `Err` */
+    *try<T, E>(this: Result<T, E>): Generator<Err<E>, T, unknown> {
+        if (!this.ok) {
+            yield this;
+            throw new Error("Result.gen resumed after an Err");
+        }
+        return this.value;
+    }
     iter<T, E>(this: Result<T, E>): Iter<T> {
         return this.ok ? iter.once(this.value) : iter.never;
     }
@@ -58,22 +83,20 @@ class ResultPart<O extends boolean, T, E> {
     //     // return this.ok ? Ok(this.value) : Err(this.value);
     // }
 
-    async await<T, E>(this: Result<T, E>): Promise<Result<Awaited<T>, E>> {
-        return this.ok ? Ok(await this.value) : this;
+    await<T, E>(this: Result<T, E>): AsyncResult<Awaited<T>, E> {
+        return new AsyncResult(
+            this.ok ? Promise.resolve(this.value).then(Ok) : this,
+        );
     }
 
-    async awaitErr<T, E>(this: Result<T, E>): Promise<Result<T, Awaited<E>>> {
-        return this.ok ? this : Err(await this.value);
+    awaitErr<T, E>(this: Result<T, E>): AsyncResult<T, Awaited<E>> {
+        return new AsyncResult(
+            this.ok ? this : Promise.resolve(this.value).then(Err),
+        );
     }
 
-    async awaitBoth<T, E>(
-        this: Result<T, E>,
-    ): Promise<Result<Awaited<T>, Awaited<E>>> {
-        /** @ts-ignore */
-        return new ResultPart(this.ok, await this.value);
-
-        // // TypeScript friendly implementation
-        // return this.ok ? Ok(await this.value) : Err(await this.value);
+    awaitBoth<T, E>(this: Result<T, E>): AsyncResult<Awaited<T>, Awaited<E>> {
+        return this.ok ? this.await() : this.awaitErr();
     }
 
     and<T, E, U>(
@@ -118,15 +141,36 @@ class ResultPart<O extends boolean, T, E> {
         return this.value;
     }
 
-    /** Throws the error, may be used like `.unwrap()` in Rust */
+    /** Wraps the error in a `ContextError`, like `.context()` in anyhow */
+    context<T, E>(
+        this: Result<T, E>,
+        context: string,
+    ): Result<T, ContextError<E>> {
+        return this.ok ? this : Err(new ContextError(context, this.value));
+    }
+
+    /** Like `context`, but only computes the message on `Err` */
+    withContext<T, E>(
+        this: Result<T, E>,
+        f: (err: E) => string,
+    ): Result<T, ContextError<E>> {
+        return this.ok
+            ? this
+            : Err(new ContextError(f(this.value), this.value));
+    }
+
+    /**
+     * Throws the error, may be used like `.unwrap()` in Rust.
+     * A `ContextError`'s message includes its report
+     */
     throw<T, E>(this: Result<T, E>): T {
         if (this.ok) return this.value;
         else throw this.value;
     }
 
-    /** Throws an `Error` if `this` is `Err` */
+    /** Throws a `ContextError` caused by the error if `this` is `Err` */
     unwrap<T, E>(this: Result<T, E>): T;
-    /** Throws `Error(msg)` if `this` is `Err` */
+    /** Throws `ContextError(msg)` caused by the error if `this` is `Err` */
     unwrap<T, E>(this: Result<T, E>, msg: string): T;
     /** Throws `f(this.value)` if `this` is `Err` */
     unwrap<T, E>(this: Result<T, E>, f: (err: E) => unknown): T;
@@ -135,7 +179,8 @@ class ResultPart<O extends boolean, T, E> {
         msg: string | ((err: E) => unknown) = "Failed to unwrap Result",
     ): T {
         if (this.ok) return this.value;
-        else throw typeof msg === "function" ? msg(this.value) : new Error(msg);
+        else if (typeof msg === "function") throw msg(this.value);
+        else throw new ContextError(msg, this.value);
     }
 
     /** Throws an `Error` if `this` is `Ok` */
@@ -182,11 +227,201 @@ class ResultPart<O extends boolean, T, E> {
         return this.ok ? f(this.value) : def(this.value);
     }
 
+    match<T, E, A, B>(
+        this: Result<T, E>,
+        arms: { Ok: (x: T) => A; Err: (e: E) => B },
+    ): A | B {
+        return this.ok ? arms.Ok(this.value) : arms.Err(this.value);
+    }
+
+    equals<T, E>(this: Result<T, E>, other: Result<T, E>): boolean {
+        return equals(this, other);
+    }
+    /** Any `Ok` is less than any `Err` */
+    compare<T, E>(this: Result<T, E>, other: Result<T, E>): Ordering {
+        return compare(this, other);
+    }
+    [eq](other: unknown): boolean {
+        return (
+            Result.is(other) &&
+            this.ok === other.ok &&
+            equals(this.value, other.value)
+        );
+    }
+    [cmp](other: unknown): Ordering {
+        if (!Result.is(other)) {
+            throw new TypeError("Can't compare a Result with a non-Result");
+        }
+        if (this.ok !== other.ok) return this.ok ? -1 : 1;
+        return compare(this.value, other.value);
+    }
+    [hash](): number {
+        return hashCombine(this.ok ? 2 : 3, hashCode(this.value));
+    }
+
+    /** `Ok(1)` becomes `{"$result":"Ok","value":1}`, `Err`s are the same */
+    toJSON<T, E>(this: Result<T, E>): ResultJSON<T, E> {
+        return this.ok
+            ? { $result: "Ok", value: this.value }
+            : { $result: "Err", value: this.value };
+    }
+
     transpose<T, E>(this: Result<Opt<T>, E>): Opt<Result<T, E>> {
         return this.ok ? this.value.map(Ok) : Some(this);
     }
 }
 
+/**
+ * A `PromiseLike` of a `Result` with the methods of `Result`, every callback
+ * may return a `PromiseLike`
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+    readonly promise: Promise<Result<T, E>>;
+
+    constructor(res: Awaitable<Result<T, E>>) {
+        this.promise = Promise.resolve(res);
+    }
+
+    then<A = Result<T, E>, B = never>(
+        onfulfilled?: ((res: Result<T, E>) => A | PromiseLike<A>) | null,
+        onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+    ): Promise<A | B> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    okValue(): AsyncOpt<T> {
+        return new AsyncOpt(this.promise.then(res => res.okValue()));
+    }
+
+    errValue(): AsyncOpt<E> {
+        return new AsyncOpt(this.promise.then(res => res.errValue()));
+    }
+
+    and<U>(
+        r: Awaitable<Result<U, E>> | ((x: T) => Awaitable<Result<U, E>>),
+    ): AsyncResult<U, E> {
+        return new AsyncResult(
+            this.promise.then(res =>
+                !res.ok ? res : typeof r === "function" ? r(res.value) : r,
+            ),
+        );
+    }
+
+    or<F>(
+        r: Awaitable<Result<T, F>> | ((e: E) => Awaitable<Result<T, F>>),
+    ): AsyncResult<T, F> {
+        return new AsyncResult(
+            this.promise.then(res =>
+                res.ok ? res : typeof r === "function" ? r(res.value) : r,
+            ),
+        );
+    }
+
+    map<U>(f: (x: T) => Awaitable<U>): AsyncResult<U, E> {
+        return new AsyncResult(
+            this.promise.then(async res =>
+                res.ok ? Ok<U>(await f(res.value)) : res,
+            ),
+        );
+    }
+
+    mapErr<F>(f: (x: E) => Awaitable<F>): AsyncResult<T, F> {
+        return new AsyncResult(
+            this.promise.then(async res =>
+                res.ok ? res : Err<F>(await f(res.value)),
+            ),
+        );
+    }
+
+    /** UNSOUND: uses `as` internally */
+    castMap<U>(): AsyncResult<U, E> {
+        return this as unknown as AsyncResult<U, E>;
+    }
+
+    /** UNSOUND: uses `as` internally */
+    castMapErr<F>(): AsyncResult<T, F> {
+        return this as unknown as AsyncResult<T, F>;
+    }
+
+    async collapse<T>(this: AsyncResult<T, T>): Promise<T> {
+        return (await this.promise).value;
+    }
+
+    context(context: string): AsyncResult<T, ContextError<E>> {
+        return new AsyncResult(this.promise.then(res => res.context(context)));
+    }
+
+    withContext(
+        f: (err: E) => Awaitable<string>,
+    ): AsyncResult<T, ContextError<E>> {
+        return new AsyncResult(
+            this.promise.then(async res =>
+                res.ok
+                    ? res
+                    : Err(new ContextError(await f(res.value), res.value)),
+            ),
+        );
+    }
+
+    /** Rejects with the error, may be used like `.unwrap()` in Rust */
+    async throw(): Promise<T> {
+        return (await this.promise).throw();
+    }
+
+    /** Rejects with a `ContextError` caused by the error if the result is `Err` */
+    unwrap(): Promise<T>;
+    /** Rejects with `ContextError(msg)` caused by the error if the result is `Err` */
+    unwrap(msg: string): Promise<T>;
+    /** Rejects with `f(err)` if the result is `Err` */
+    unwrap(f: (err: E) => unknown): Promise<T>;
+    async unwrap(msg?: string | ((err: E) => unknown)): Promise<T> {
+        return (await this.promise).unwrap(msg as string);
+    }
+
+    /** Rejects with an `Error` if the result is `Ok` */
+    unwrapErr(): Promise<E>;
+    /** Rejects with `Error(msg)` if the result is `Ok` */
+    unwrapErr(msg: string): Promise<E>;
+    /** Rejects with `f(value)` if the result is `Ok` */
+    unwrapErr(f: (value: T) => unknown): Promise<E>;
+    async unwrapErr(msg?: string | ((value: T) => unknown)): Promise<E> {
+        return (await this.promise).unwrapErr(msg as string);
+    }
+
+    async unwrapOr(def: T): Promise<T> {
+        return (await this.promise).unwrapOr(def);
+    }
+
+    async unwrapOrElse(def: (x: E) => Awaitable<T>): Promise<T> {
+        const res = await this.promise;
+        return res.ok ? res.value : await def(res.value);
+    }
+
+    async mapOr<U>(def: U, f: (x: T) => Awaitable<U>): Promise<U> {
+        const res = await this.promise;
+        return res.ok ? await f(res.value) : def;
+    }
+
+    async mapOrElse<U>(
+        def: (x: E) => Awaitable<U>,
+        f: (x: T) => Awaitable<U>,
+    ): Promise<U> {
+        const res = await this.promise;
+        return res.ok ? await f(res.value) : await def(res.value);
+    }
+
+    async match<A, B>(arms: {
+        Ok: (x: T) => Awaitable<A>;
+        Err: (e: E) => Awaitable<B>;
+    }): Promise<A | B> {
+        return await (await this.promise).match(arms);
+    }
+
+    transpose<T, E>(this: AsyncResult<Opt<T>, E>): AsyncOpt<Result<T, E>> {
+        return new AsyncOpt(this.promise.then(res => res.transpose()));
+    }
+}
+
 export function Ok<T>(value: T): Ok<T> {
     return new ResultPart<true, T, never>(true, value);
 }
@@ -208,29 +443,108 @@ function catch_<T, E = unknown>(
     }
 }
 
-async function asyncCatch<T>(
+function asyncCatch<T>(
     f: PromiseLike<T> | (() => PromiseLike<T>),
-): Promise<Result<T, unknown>>;
-async function asyncCatch<T, E>(
+): AsyncResult<T, unknown>;
+function asyncCatch<T, E>(
     f: PromiseLike<T> | (() => PromiseLike<T>),
     isE: (e: unknown) => e is E,
-): Promise<Result<T, E>>;
-async function asyncCatch<T, E = unknown>(
+): AsyncResult<T, E>;
+function asyncCatch<T, E = unknown>(
     f: PromiseLike<T> | (() => PromiseLike<T>),
     isE?: (e: unknown) => e is E,
-): Promise<Result<T, E>> {
-    try {
-        return Ok(await (typeof f === "function" ? f() : f));
-    } catch (err) {
-        if (isE?.(err) ?? true) return Err(err as E);
-        else throw err;
-    }
+): AsyncResult<T, E> {
+    return new AsyncResult(
+        (async () => {
+            try {
+                return Ok(await (typeof f === "function" ? f() : f));
+            } catch (err) {
+                if (isE?.(err) ?? true) return Err(err as E);
+                else throw err;
+            }
+        })(),
+    );
+}
+
+type ErrValue<R> = R extends Err<infer E> ? E : never;
+
+/**
+ * Runs `f` until it yields an `Err`, `yield* res.try()` works like `res?` in Rust:
+ * ```ts
+ * Result.gen(function* () {
+ *     const a = yield* parse(x).try();
+ *     return a + (yield* parse(y).try());
+ * });
+ * ```
+ * It's `yield* res.try()` rather than `yield* res` because iterating a
+ * `Result` yields its `Ok` value, like `res.iter()`
+ */
+function gen<Y extends Err<unknown>, T>(
+    f: () => Generator<Y, T, unknown>,
+): Result<T, ErrValue<Y>> {
+    const it = f();
+    const res = it.next();
+    if (res.done) return Ok(res.value);
+    it.return(undefined as T);
+    return res.value as Err<ErrValue<Y>>;
+}
+
+/** Like `Result.gen`, but `f` may also `await` */
+function genAsync<Y extends Err<unknown>, T>(
+    f: () => AsyncGenerator<Y, T, unknown>,
+): AsyncResult<T, ErrValue<Y>> {
+    return new AsyncResult(
+        (async () => {
+            const it = f();
+            const res = await it.next();
+            if (res.done) return Ok(res.value);
+            await it.return(undefined as T);
+            return res.value as Err<ErrValue<Y>>;
+        })(),
+    );
+}
+
+/** Collects the `Ok` values of `iterable`, see `Iter.collectResult` */
+function fromIter<T, E>(iterable: Iterable<Result<T, E>>): Result<T[], E>;
+function fromIter<K, V, E>(
+    iterable: Iterable<Result<[K, V], E>>,
+    c: MapConstructor,
+): Result<Map<K, V>, E>;
+function fromIter<T, E>(
+    iterable: Iterable<Result<T, E>>,
+    c: SetConstructor,
+): Result<Set<T>, E>;
+function fromIter<T, E, C>(
+    iterable: Iterable<Result<T, E>>,
+    c: { new (iter: Iter<T>): C },
+): Result<C, E>;
+function fromIter<T, E, C>(
+    iterable: Iterable<Result<T, E>>,
+    c?: { new (iter: Iter<T>): C },
+): Result<C | T[], E> {
+    return c === undefined
+        ? iter(iterable).collectResult()
+        : iter(iterable).collectResult(c);
 }
 
 export const Result = {
     Ok,
     Err,
+    is(x: unknown): x is Result<unknown, unknown> {
+        return x instanceof ResultPart;
+    },
     catch: catch_,
     asyncCatch,
+    gen,
+    genAsync,
+    fromIter,
+    /** A `JSON.parse` reviver that turns `toJSON` output back into `Result`s */
+    reviver(_key: string, value: unknown): unknown {
+        if (typeof value !== "object" || value === null) return value;
+        const json = value as { $result?: unknown; value?: unknown };
+        if (json.$result === "Ok") return Ok(json.value);
+        if (json.$result === "Err") return Err(json.value);
+        return value;
+    },
 } as const;
 export default Result;
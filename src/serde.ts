@@ -0,0 +1,76 @@
+import { Opt, Some, None } from "./option.js";
+import { Result, Ok, Err } from "./result.js";
+
+/**
+ * A `JSON.parse` reviver for both `Opt`s and `Result`s:
+ * ```ts
+ * JSON.parse(JSON.stringify(Ok(Some(1))), reviver); // Ok(Some(1))
+ * ```
+ */
+export function reviver(key: string, value: unknown): unknown {
+    return Result.reviver(key, Opt.reviver(key, value));
+}
+
+/**
+ * Rebuilds the `Opt`s and `Result`s in a value that lost its prototypes to
+ * `structuredClone` or `postMessage`, looking into arrays, plain objects,
+ * `Map`s and `Set`s. The `toJSON` forms are rebuilt as well.
+ * UNSOUND: trusts `T` to describe the original value
+ */
+export function rehydrate<T>(value: T): T {
+    return walk(value, new Map()) as T;
+}
+
+function isPlain(x: object): boolean {
+    const proto = Object.getPrototypeOf(x);
+    return proto === Object.prototype || proto === null;
+}
+
+function hasKeys(x: object, keys: string[]): boolean {
+    const own = Object.keys(x);
+    return own.length === keys.length && keys.every(k => own.includes(k));
+}
+
+/** `seen` maps the visited containers to their copies, to keep shared references and cycles */
+function walk(x: unknown, seen: Map<object, unknown>): unknown {
+    if (typeof x !== "object" || x === null) return x;
+    if (seen.has(x)) return seen.get(x);
+
+    if (Array.isArray(x)) {
+        const copy: unknown[] = [];
+        seen.set(x, copy);
+        for (const item of x) copy.push(walk(item, seen));
+        return copy;
+    }
+    if (x instanceof Map) {
+        const copy = new Map();
+        seen.set(x, copy);
+        for (const [k, v] of x) copy.set(walk(k, seen), walk(v, seen));
+        return copy;
+    }
+    if (x instanceof Set) {
+        const copy = new Set();
+        seen.set(x, copy);
+        for (const item of x) copy.add(walk(item, seen));
+        return copy;
+    }
+    if (!isPlain(x)) return x;
+
+    const shape = x as { some?: unknown; ok?: unknown; value?: unknown };
+    if (typeof shape.some === "boolean" && hasKeys(x, ["some", "value"])) {
+        const opt = shape.some ? Some(walk(shape.value, seen)) : None;
+        seen.set(x, opt);
+        return opt;
+    }
+    if (typeof shape.ok === "boolean" && hasKeys(x, ["ok", "value"])) {
+        const value = walk(shape.value, seen);
+        const res = shape.ok ? Ok(value) : Err(value);
+        seen.set(x, res);
+        return res;
+    }
+
+    const copy: Record<string, unknown> = {};
+    seen.set(x, copy);
+    for (const [k, v] of Object.entries(x)) copy[k] = walk(v, seen);
+    return reviver("", copy);
+}
@@ -1,6 +1,54 @@
 import { Opt, Some, None } from "./option.js";
+import { Result, Ok, Err } from "./result.js";
+import { Clock, systemClock, sleep } from "./clock.js";
+import { compare, equals } from "./cmp.js";
+import type { HashMap, HashSet } from "./hashmap.js";
+import type { BTreeMap, BTreeSet } from "./btree.js";
+import type { VecDeque } from "./vecdeque.js";
+import type { BinaryHeap } from "./binaryheap.js";
+import type { Awaitable, Tuple } from "./utils.js";
 
-type Awaitable<T> = PromiseLike<T> | Awaited<T>;
+/**
+ * How `select` picks between inputs that are ready at the same time:
+ * `"fair"` round-robins between them, `"biased"` always prefers the first one
+ */
+export type SelectStrategy = "fair" | "biased";
+
+/** A collection that can be built from a `Stream`, see `Stream.collect` */
+export interface FromStream<T, C> {
+    fromStream(stream: Stream<T>): Awaitable<C>;
+}
+
+/**
+ * The parts of a Node.js `Readable` that `stream.fromReadable` uses, so this
+ * module doesn't depend on `node:stream`
+ */
+export interface NodeReadable extends AsyncIterable<any> {
+    destroy(error?: Error): unknown;
+}
+
+/** The error a `Stream` rejects with once its `AbortSignal` aborts */
+export class AbortError extends Error {
+    /** The `reason` of the signal */
+    readonly reason: unknown;
+
+    constructor(reason: unknown) {
+        super("Stream was aborted", { cause: reason });
+        this.name = "AbortError";
+        this.reason = reason;
+    }
+}
+
+/** The error yielded by `Stream.timeout` */
+export class TimeoutError extends Error {
+    readonly ms: number;
+
+    constructor(ms: number) {
+        super(`Stream timed out after ${ms}ms`);
+        this.name = "TimeoutError";
+        this.ms = ms;
+    }
+}
 
 export abstract class Stream<T> implements AsyncIterable<T>, AsyncIterator<T> {
     abstract [Symbol.asyncIterator](): AsyncIterator<T, unknown>;
@@ -8,85 +56,177 @@ export abstract class Stream<T> implements AsyncIterable<T>, AsyncIterator<T> {
     abstract return?(value: unknown): Promise<IteratorResult<T, unknown>>;
     abstract throw?(e: unknown): Promise<IteratorResult<T, unknown>>;
 
-    async optNext(): Promise<Opt<T>> {
-        const res = await this.next();
-        return res.done ? None : Some(res.value);
+    async optNext(signal?: AbortSignal): Promise<Opt<T>> {
+        return withSignal(this, signal, async s => {
+            const res = await s.next();
+            return res.done ? None : Some(res.value);
+        });
     }
-    async nth(n: number): Promise<Opt<T>> {
-        for (let i = 1; i < n; i++) {
-            const res = await this.next();
-            if (res.done) return None;
-        }
-        return this.optNext();
-    }
-    async all(this: Stream<boolean>): Promise<boolean> {
-        let result = true;
-        for await (const b of this) result &&= b;
-        return result;
-    }
-    async any(this: Stream<boolean>): Promise<boolean> {
-        let result = false;
-        for await (const b of this) result ||= b;
-        return result;
-    }
-    async sum(this: Stream<number>): Promise<number> {
-        let sum = 0;
-        for await (const x of this) sum += x;
-        return sum;
-    }
-    async min(this: Stream<number>): Promise<number> {
-        let min = 0;
-        for await (const x of this) min = Math.min(x, min);
-        return min;
-    }
-    async max(this: Stream<number>): Promise<number> {
-        let max = 0;
-        for await (const x of this) max = Math.max(x, max);
-        return max;
-    }
-    async forEach(f: (x: T) => Awaitable<void>) {
-        for await (const x of this) await f(x);
-    }
-    async fold<U>(init: U, f: (sum: U, x: T) => Awaitable<U>): Promise<U> {
-        for await (const x of this) {
-            init = await f(init, x);
-        }
-        return init;
+    async nth(n: number, signal?: AbortSignal): Promise<Opt<T>> {
+        return withSignal(this, signal, async s => {
+            for (let i = 1; i < n; i++) {
+                const res = await s.next();
+                if (res.done) return None;
+            }
+            return s.optNext();
+        });
     }
-    async reduce(f: (sum: T, x: T) => Awaitable<T>): Promise<Opt<T>> {
-        const res = await this.next();
-        if (res.done) return None;
+    async all(this: Stream<boolean>, signal?: AbortSignal): Promise<boolean> {
+        return withSignal(this, signal, async s => {
+            let result = true;
+            for await (const b of s) result &&= b;
+            return result;
+        });
+    }
+    async any(this: Stream<boolean>, signal?: AbortSignal): Promise<boolean> {
+        return withSignal(this, signal, async s => {
+            let result = false;
+            for await (const b of s) result ||= b;
+            return result;
+        });
+    }
+    async sum(this: Stream<number>, signal?: AbortSignal): Promise<number> {
+        return withSignal(this, signal, async s => {
+            let sum = 0;
+            for await (const x of s) sum += x;
+            return sum;
+        });
+    }
+    async min(this: Stream<number>, signal?: AbortSignal): Promise<number> {
+        return withSignal(this, signal, async s => {
+            let min = 0;
+            for await (const x of s) min = Math.min(x, min);
+            return min;
+        });
+    }
+    async max(this: Stream<number>, signal?: AbortSignal): Promise<number> {
+        return withSignal(this, signal, async s => {
+            let max = 0;
+            for await (const x of s) max = Math.max(x, max);
+            return max;
+        });
+    }
+    /** The first smallest item by `f`, `compare` is one */
+    async minBy(
+        f: (a: T, b: T) => number,
+        signal?: AbortSignal,
+    ): Promise<Opt<T>> {
+        return withSignal(this, signal, async s => {
+            let min: Opt<T> = None;
+            for await (const x of s) {
+                if (!min.some || f(x, min.value) < 0) min = Some(x);
+            }
+            return min;
+        });
+    }
+    /** The last largest item by `f`, `compare` is one */
+    async maxBy(
+        f: (a: T, b: T) => number,
+        signal?: AbortSignal,
+    ): Promise<Opt<T>> {
+        return withSignal(this, signal, async s => {
+            let max: Opt<T> = None;
+            for await (const x of s) {
+                if (!max.some || f(x, max.value) >= 0) max = Some(x);
+            }
+            return max;
+        });
+    }
+    /** Calls `f` once per item */
+    async minByKey<K>(
+        f: (x: T) => Awaitable<K>,
+        signal?: AbortSignal,
+    ): Promise<Opt<T>> {
+        const min = await this.map(async x => [await f(x), x] as [K, T]).minBy(
+            ([a], [b]) => compare(a, b),
+            signal,
+        );
+        return min.map(([, x]) => x);
+    }
+    /** Calls `f` once per item */
+    async maxByKey<K>(
+        f: (x: T) => Awaitable<K>,
+        signal?: AbortSignal,
+    ): Promise<Opt<T>> {
+        const max = await this.map(async x => [await f(x), x] as [K, T]).maxBy(
+            ([a], [b]) => compare(a, b),
+            signal,
+        );
+        return max.map(([, x]) => x);
+    }
+    async forEach(f: (x: T) => Awaitable<void>, signal?: AbortSignal) {
+        return withSignal(this, signal, async s => {
+            for await (const x of s) await f(x);
+        });
+    }
+    async fold<U>(
+        init: U,
+        f: (sum: U, x: T) => Awaitable<U>,
+        signal?: AbortSignal,
+    ): Promise<U> {
+        return withSignal(this, signal, async s => {
+            for await (const x of s) {
+                init = await f(init, x);
+            }
+            return init;
+        });
+    }
+    async reduce(
+        f: (sum: T, x: T) => Awaitable<T>,
+        signal?: AbortSignal,
+    ): Promise<Opt<T>> {
+        return withSignal(this, signal, async s => {
+            const res = await s.next();
+            if (res.done) return None;
 
-        let sum = res.value;
-        for await (const x of this) {
-            sum = await f(sum, x);
-        }
-        return Some(sum);
+            let sum = res.value;
+            for await (const x of s) {
+                sum = await f(sum, x);
+            }
+            return Some(sum);
+        });
     }
-    async find(f: (x: T, i: number) => Awaitable<boolean>): Promise<Opt<T>> {
-        for (let i = 0; ; i++) {
-            const res = await this.next();
-            if (res.done) {
-                return None;
-            } else if (await f(res.value, i)) {
-                return Some(res.value);
+    async find(
+        f: (x: T, i: number) => Awaitable<boolean>,
+        signal?: AbortSignal,
+    ): Promise<Opt<T>> {
+        return withSignal(this, signal, async s => {
+            for (let i = 0; ; i++) {
+                const res = await s.next();
+                if (res.done) {
+                    return None;
+                } else if (await f(res.value, i)) {
+                    return Some(res.value);
+                }
             }
-        }
+        });
     }
     async findMap<U>(
         f: (x: T, i: number) => Awaitable<Opt<U>>,
+        signal?: AbortSignal,
     ): Promise<Opt<U>> {
-        for (let i = 0; ; i++) {
-            const res = await this.next();
-            if (res.done) {
-                return None;
-            } else {
-                const o = await f(res.value, i);
-                if (o.some) return o;
+        return withSignal(this, signal, async s => {
+            for (let i = 0; ; i++) {
+                const res = await s.next();
+                if (res.done) {
+                    return None;
+                } else {
+                    const o = await f(res.value, i);
+                    if (o.some) return o;
+                }
             }
-        }
+        });
     }
 
+    /**
+     * Once `signal` aborts, pending and later `next` calls reject with an
+     * `AbortError` and `return` is called on the upstream iterator
+     */
+    abortable(signal: AbortSignal): AbortableStream<T>;
+    abortable(signal?: AbortSignal): Stream<T>;
+    abortable(signal?: AbortSignal): Stream<T> {
+        return signal === undefined ? this : new AbortableStream(this, signal);
+    }
     take(cnt: number): TakeStream<T> {
         return new TakeStream(this, cnt);
     }
@@ -105,16 +245,176 @@ export abstract class Stream<T> implements AsyncIterable<T>, AsyncIterator<T> {
     filterMap<U>(f: (x: T) => Awaitable<Opt<U>>): FilterMapStream<T, U> {
         return new FilterMapStream(this, f);
     }
+    /** Ends at the first item that doesn't satisfy `f` and closes the source */
+    takeWhile(f: (x: T) => Awaitable<boolean>): TakeWhileStream<T> {
+        return new TakeWhileStream(this, f);
+    }
+    /** Skips items until the first one that doesn't satisfy `f` */
+    skipWhile(f: (x: T) => Awaitable<boolean>): SkipWhileStream<T> {
+        return new SkipWhileStream(this, f);
+    }
+    /** Like `map`, but ends at the first `None` and closes the source */
+    mapWhile<U>(f: (x: T) => Awaitable<Opt<U>>): Stream<U> {
+        return new ScanStream(this, undefined, async (_, x) =>
+            (await f(x)).map(y => [undefined, y]),
+        );
+    }
+    /** Groups the items into arrays of `n`, the last one may be shorter */
+    chunks(n: number): ChunksStream<T> {
+        return new ChunksStream(this, n, false);
+    }
+    /** Groups the items into tuples of `n`, a shorter remainder is dropped */
+    arrayChunks<N extends number>(n: N): Stream<Tuple<T, N>> {
+        return new ChunksStream(this, n, true) as Stream<any> as Stream<
+            Tuple<T, N>
+        >;
+    }
+    /** Every `n` consecutive items, each window is a new array */
+    windows(n: number): WindowsStream<T> {
+        return new WindowsStream(this, n);
+    }
+    /** Groups runs of consecutive items whose keys are equal, see `equals` */
+    chunkBy<K>(key: (x: T) => Awaitable<K>): ChunkByStream<T, K> {
+        return new ChunkByStream(this, key);
+    }
+    /** Threads `state` through `f`, which yields the next state and item or ends with `None`, closing the source */
+    scan<S, U>(
+        state: S,
+        f: (state: S, x: T) => Awaitable<Opt<[S, U]>>,
+    ): ScanStream<T, S, U> {
+        return new ScanStream(this, state, f);
+    }
     zip<U extends any[]>(
         ...iters: ConstructorParameters<typeof ZipStream<U>>
     ): Stream<[T, ...U]> {
         return new ZipStream<[T, ...U]>(this, ...iters);
     }
-    // collect(): T[];
-    // collect<C>(c: { new (iter: AsyncIterable<T>): C }): C;
-    // async collect<C>(c?: { new (iter: AsyncIterable<T>): C }): C | T[] {
-    //     return c === undefined ? [...this] : new c(this);
-    // }
+    /** Interleaves the items of all the streams as they arrive */
+    merge<U>(...iters: AsyncIterable<U>[]): MergeStream<T | U> {
+        return new MergeStream<T | U>("fair", this, ...iters);
+    }
+    select<U>(
+        other: AsyncIterable<U>,
+        strategy: SelectStrategy = "fair",
+    ): MergeStream<T | U> {
+        return new MergeStream<T | U>(strategy, this, other);
+    }
+    /** Yields the items of `this` and then the items of each of `iters` */
+    chain<U>(...iters: AsyncIterable<U>[]): ChainStream<T | U> {
+        return new ChainStream<T | U>(this, ...iters);
+    }
+    /** Drops the items that arrive less than `ms` after the last yielded one */
+    throttle(ms: number, clock: Clock = systemClock): ThrottleStream<T> {
+        return new ThrottleStream(this, ms, clock);
+    }
+    /** Yields an item only once no other item arrived for `ms` */
+    debounce(ms: number, clock: Clock = systemClock): DebounceStream<T> {
+        return new DebounceStream(this, ms, clock);
+    }
+    /** Yields `Err(TimeoutError)` whenever no item arrived for `ms`, then keeps waiting */
+    timeout(ms: number, clock: Clock = systemClock): TimeoutStream<T> {
+        return new TimeoutStream(this, ms, clock);
+    }
+    /** Throws a `TimeoutError` when no item arrived for `ms` */
+    timeoutThrow(ms: number, clock: Clock = systemClock): Stream<T> {
+        return this.timeout(ms, clock).map(async res => res.throw());
+    }
+    /** Delays every item by `ms` */
+    delay(ms: number, clock: Clock = systemClock): DelayStream<T> {
+        return new DelayStream(this, ms, clock);
+    }
+    /** Yields the latest item every `ms`, if a new one arrived */
+    sample(ms: number, clock: Clock = systemClock): SampleStream<T> {
+        return new SampleStream(this, ms, clock);
+    }
+    /** Like `map`, but runs up to `limit` calls of `f` at once, keeps the input order */
+    buffered<U>(
+        limit: number,
+        f: (x: T) => Awaitable<U>,
+    ): BufferedStream<T, U> {
+        return new BufferedStream(this, limit, f);
+    }
+    /** Like `map`, but runs up to `limit` calls of `f` at once, yields results as they finish */
+    bufferUnordered<U>(
+        limit: number,
+        f: (x: T) => Awaitable<U>,
+    ): BufferUnorderedStream<T, U> {
+        return new BufferUnorderedStream(this, limit, f);
+    }
+    /**
+     * A `ReadableStream` that pulls from `this`, cancelling it calls `return`.
+     * For a Node.js `Readable` use `toNodeReadable` from `oxijuice/node`
+     */
+    toReadableStream(highWaterMark: number = 1): ReadableStream<T> {
+        return new ReadableStream<T>(
+            {
+                pull: async controller => {
+                    const res = await this.next();
+                    if (res.done) controller.close();
+                    else controller.enqueue(res.value);
+                },
+                cancel: async reason => {
+                    await this.return?.(reason);
+                },
+            },
+            new CountQueuingStrategy({ highWaterMark }),
+        );
+    }
+    collect(): Promise<T[]>;
+    /** Concatenates the items into a string */
+    collect(c: StringConstructor): Promise<string>;
+    collect<K, V>(this: Stream<[K, V]>, c: MapConstructor): Promise<Map<K, V>>;
+    collect(c: SetConstructor): Promise<Set<T>>;
+    collect<K, V>(
+        this: Stream<[K, V]>,
+        c: typeof HashMap,
+    ): Promise<HashMap<K, V>>;
+    collect(c: typeof HashSet): Promise<HashSet<T>>;
+    collect<K, V>(
+        this: Stream<[K, V]>,
+        c: typeof BTreeMap,
+    ): Promise<BTreeMap<K, V>>;
+    collect(c: typeof BTreeSet): Promise<BTreeSet<T>>;
+    collect(c: typeof VecDeque): Promise<VecDeque<T>>;
+    collect(c: typeof BinaryHeap): Promise<BinaryHeap<T>>;
+    collect<C>(c: FromStream<T, C>): Promise<C>;
+    /** Collects into an array first, then passes it to `c`, e.g. `Map` or `Set` */
+    collect<C>(c: { new (iter: Iterable<T>): C }): Promise<C>;
+    async collect<C>(
+        c?:
+            | StringConstructor
+            | FromStream<T, C>
+            | { new (iter: Iterable<T>): C },
+    ): Promise<C | T[] | string> {
+        if (c === undefined) {
+            const a = [];
+            for await (const x of this) a.push(x);
+            return a;
+        } else if (c === String) {
+            return (await this.collect()).join("");
+        } else if ("fromStream" in c) {
+            return await c.fromStream(this);
+        } else {
+            return new (c as { new (iter: Iterable<T>): C })(
+                await this.collect(),
+            );
+        }
+    }
+}
+
+/** Runs a terminal operation on `s`, `signal` only applies while it runs */
+async function withSignal<T, U>(
+    s: Stream<T>,
+    signal: AbortSignal | undefined,
+    f: (s: Stream<T>) => Promise<U>,
+): Promise<U> {
+    if (signal === undefined) return await f(s);
+    const abortable = new AbortableStream(s, signal);
+    try {
+        return await f(abortable);
+    } finally {
+        abortable.close();
+    }
 }
 
 class StreamWrapper<T> extends Stream<T> {
@@ -145,6 +445,134 @@ class StreamWrapper<T> extends Stream<T> {
     }
 }
 
+class AbortableStream<T> extends Stream<T> {
+    iter: AsyncIterator<T, unknown>;
+    signal: AbortSignal;
+    closed: boolean;
+
+    constructor(a: AsyncIterable<T>, signal: AbortSignal) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.signal = signal;
+        this.closed = false;
+        this.onAbort = this.onAbort.bind(this);
+        signal.addEventListener("abort", this.onAbort, { once: true });
+    }
+
+    onAbort() {
+        if (this.closed) return;
+        this.closed = true;
+        Promise.resolve(this.iter.return?.(this.signal.reason)).catch(
+            () => undefined,
+        );
+    }
+    close() {
+        this.closed = true;
+        this.signal.removeEventListener("abort", this.onAbort);
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        if (this.signal.aborted) {
+            this.onAbort();
+            throw new AbortError(this.signal.reason);
+        }
+
+        let onAbort!: () => void;
+        const aborted = new Promise<never>((_, reject) => {
+            onAbort = () => reject(new AbortError(this.signal.reason));
+        });
+        this.signal.addEventListener("abort", onAbort, { once: true });
+        try {
+            const res = await Promise.race([this.iter.next(), aborted]);
+            if (res.done) this.close();
+            return res;
+        } finally {
+            this.signal.removeEventListener("abort", onAbort);
+        }
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        if (this.closed) return { done: true, value };
+        this.close();
+        return (await this.iter.return?.(value)) ?? { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        if (this.closed) return { done: true, value: undefined };
+        this.close();
+        return (await this.iter.throw?.(e)) ?? { done: true, value: undefined };
+    }
+}
+
+class ReadableStreamWrapper<T> extends Stream<T> {
+    reader: ReadableStreamDefaultReader<T>;
+    /** Whether the lock on the stream was released */
+    done: boolean;
+
+    constructor(readable: ReadableStream<T>) {
+        super();
+        this.reader = readable.getReader();
+        this.done = false;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        if (this.done) return { done: true, value: undefined };
+        const res = await this.reader.read();
+        if (!res.done) return { value: res.value };
+        this.done = true;
+        this.reader.releaseLock();
+        return { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        if (this.done) return { done: true, value };
+        this.done = true;
+        await this.reader.cancel(value);
+        this.reader.releaseLock();
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        if (this.done) return { done: true, value: undefined };
+        this.done = true;
+        await this.reader.cancel(e);
+        this.reader.releaseLock();
+        return { done: true, value: undefined };
+    }
+}
+
+class NodeReadableWrapper<T> extends Stream<T> {
+    readable: NodeReadable;
+    iter: AsyncIterator<T, unknown>;
+
+    constructor(readable: NodeReadable) {
+        super();
+        this.readable = readable;
+        this.iter = readable[Symbol.asyncIterator]();
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        return await this.iter.next();
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.readable.destroy(e instanceof Error ? e : new Error(String(e)));
+        await this.iter.return?.(undefined);
+        return { done: true, value: undefined };
+    }
+}
+
 class TakeStream<T> extends Stream<T> {
     iter: AsyncIterator<T, unknown>;
     cnt: number;
@@ -322,67 +750,966 @@ class FilterMapStream<T, U> extends Stream<U> {
     }
 }
 
-class ZipStream<T extends any[]> extends Stream<T> {
-    iters: { [I in keyof T]: AsyncIterator<T[I]> };
+class TakeWhileStream<T> extends Stream<T> {
+    iter: AsyncIterator<T, unknown>;
+    f: (x: T) => Awaitable<boolean>;
+    done: boolean;
 
-    constructor(...iters: { [I in keyof T]: AsyncIterable<T[I]> }) {
+    constructor(a: AsyncIterable<T>, f: (x: T) => Awaitable<boolean>) {
         super();
-        this.iters = iters.map(iterable =>
-            iterable[Symbol.asyncIterator](),
-        ) as any;
+        this.iter = a[Symbol.asyncIterator]();
+        this.f = f;
+        this.done = false;
     }
 
-    [Symbol.asyncIterator](): AsyncIterator<T> {
+    [Symbol.asyncIterator](): this {
         return this;
     }
+
     async next(): Promise<IteratorResult<T, unknown>> {
-        const value = [];
-        let done = false;
-        for (const iter of this.iters) {
-            const res = await iter.next();
-            done = res.done || done;
-            value.push(res.value);
+        if (this.done) return { done: true, value: undefined };
+
+        const res = await this.iter.next();
+        if (res.done) {
+            this.done = true;
+            return res;
         }
-        return { value, done } as any;
+        if (await this.f(res.value)) return res;
+
+        this.done = true;
+        await this.iter.return?.(undefined);
+        return { done: true, value: undefined };
     }
     async return(value: unknown): Promise<IteratorResult<T, unknown>> {
-        for (const iter of this.iters) {
-            await iter.return?.(value);
-        }
-        return { done: true, value };
+        if (this.done) return { done: true, value };
+        this.done = true;
+        return (await this.iter.return?.(value)) ?? { done: true, value };
     }
     async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
-        for (const iter of this.iters) {
-            await iter.throw?.(e);
-        }
-        return { done: true, value: undefined };
+        if (this.done) return { done: true, value: undefined };
+        this.done = true;
+        return (await this.iter.throw?.(e)) ?? { done: true, value: undefined };
     }
 }
 
-class OnceStream<T> extends Stream<T> {
-    done: boolean;
-    value: T;
+class SkipWhileStream<T> extends Stream<T> {
+    iter: AsyncIterator<T, unknown>;
+    f: (x: T) => Awaitable<boolean>;
+    skipping: boolean;
 
-    constructor(value: T) {
+    constructor(a: AsyncIterable<T>, f: (x: T) => Awaitable<boolean>) {
         super();
-        this.done = false;
-        this.value = value;
+        this.iter = a[Symbol.asyncIterator]();
+        this.f = f;
+        this.skipping = true;
     }
 
-    [Symbol.asyncIterator](): AsyncIterator<T, unknown> {
+    [Symbol.asyncIterator](): this {
         return this;
     }
+
     async next(): Promise<IteratorResult<T, unknown>> {
-        return { value: this.value, done: this.done };
+        if (!this.skipping) return await this.iter.next();
+
+        let res;
+        do {
+            res = await this.iter.next();
+        } while (!res.done && (await this.f(res.value)));
+        this.skipping = false;
+        return res;
     }
     async return(value: unknown): Promise<IteratorResult<T, unknown>> {
-        return { value, done: true };
+        return (await this.iter.return?.(value)) ?? { done: true, value };
     }
-    async throw(_e: unknown): Promise<IteratorResult<T, unknown>> {
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        return (await this.iter.throw?.(e)) ?? { done: true, value: undefined };
+    }
+}
+
+class ScanStream<T, S, U> extends Stream<U> {
+    iter: AsyncIterator<T, unknown>;
+    state: S;
+    f: (state: S, x: T) => Awaitable<Opt<[S, U]>>;
+    done: boolean;
+
+    constructor(
+        a: AsyncIterable<T>,
+        state: S,
+        f: (state: S, x: T) => Awaitable<Opt<[S, U]>>,
+    ) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.state = state;
+        this.f = f;
+        this.done = false;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<U, unknown>> {
+        if (this.done) return { done: true, value: undefined };
+
+        const res = await this.iter.next();
+        if (res.done) {
+            this.done = true;
+            return res;
+        }
+        const opt = await this.f(this.state, res.value);
+        if (opt.some) {
+            [this.state] = opt.value;
+            return { value: opt.value[1] };
+        }
+
+        this.done = true;
+        await this.iter.return?.(undefined);
+        return { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<U, unknown>> {
+        if (this.done) return { done: true, value };
+        this.done = true;
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<U, unknown>> {
+        if (this.done) return { done: true, value: undefined };
+        this.done = true;
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class ChunksStream<T> extends Stream<T[]> {
+    iter: AsyncIterator<T, unknown>;
+    n: number;
+    /** Whether a shorter last chunk is dropped */
+    exact: boolean;
+
+    constructor(a: AsyncIterable<T>, n: number, exact: boolean) {
+        super();
+        if (!Number.isInteger(n) || n < 1) {
+            throw new RangeError("Chunk size must be a positive integer");
+        }
+        this.iter = a[Symbol.asyncIterator]();
+        this.n = n;
+        this.exact = exact;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T[], unknown>> {
+        const chunk = [];
+        while (chunk.length < this.n) {
+            const res = await this.iter.next();
+            if (res.done) {
+                if (chunk.length === 0 || this.exact) return res;
+                break;
+            }
+            chunk.push(res.value);
+        }
+        return { value: chunk };
+    }
+    async return(value: unknown): Promise<IteratorResult<T[], unknown>> {
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T[], unknown>> {
+        await this.iter.throw?.(e);
         return { done: true, value: undefined };
     }
 }
 
+class WindowsStream<T> extends Stream<T[]> {
+    iter: AsyncIterator<T, unknown>;
+    n: number;
+    /** A ring buffer of the last `n` items, the oldest is at `head` once full */
+    buf: T[];
+    head: number;
+
+    constructor(a: AsyncIterable<T>, n: number) {
+        super();
+        if (!Number.isInteger(n) || n < 1) {
+            throw new RangeError("Window size must be a positive integer");
+        }
+        this.iter = a[Symbol.asyncIterator]();
+        this.n = n;
+        this.buf = [];
+        this.head = 0;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T[], unknown>> {
+        do {
+            const res = await this.iter.next();
+            if (res.done) return res;
+            if (this.buf.length < this.n) {
+                this.buf.push(res.value);
+            } else {
+                this.buf[this.head] = res.value;
+                this.head = (this.head + 1) % this.n;
+            }
+        } while (this.buf.length < this.n);
+        const window = new Array<T>(this.n);
+        for (let i = 0; i < this.n; i++) {
+            window[i] = this.buf[(this.head + i) % this.n]!;
+        }
+        return { value: window };
+    }
+    async return(value: unknown): Promise<IteratorResult<T[], unknown>> {
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T[], unknown>> {
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class ChunkByStream<T, K> extends Stream<T[]> {
+    iter: AsyncIterator<T, unknown>;
+    key: (x: T) => Awaitable<K>;
+    /** The key and items of the run that's being read */
+    chunk: Opt<[K, T[]]>;
+
+    constructor(a: AsyncIterable<T>, key: (x: T) => Awaitable<K>) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.key = key;
+        this.chunk = None;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T[], unknown>> {
+        while (true) {
+            const res = await this.iter.next();
+            if (res.done) {
+                if (!this.chunk.some) return res;
+                const [, chunk] = this.chunk.value;
+                this.chunk = None;
+                return { value: chunk };
+            }
+
+            const k = await this.key(res.value);
+            if (!this.chunk.some) {
+                this.chunk = Some([k, [res.value]]);
+                continue;
+            }
+            const [key, chunk] = this.chunk.value;
+            if (equals(key, k)) {
+                chunk.push(res.value);
+            } else {
+                this.chunk = Some([k, [res.value]]);
+                return { value: chunk };
+            }
+        }
+    }
+    async return(value: unknown): Promise<IteratorResult<T[], unknown>> {
+        this.chunk = None;
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T[], unknown>> {
+        this.chunk = None;
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class ZipStream<T extends any[]> extends Stream<T> {
+    iters: { [I in keyof T]: AsyncIterator<T[I]> };
+
+    constructor(...iters: { [I in keyof T]: AsyncIterable<T[I]> }) {
+        super();
+        this.iters = iters.map(iterable =>
+            iterable[Symbol.asyncIterator](),
+        ) as any;
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+        return this;
+    }
+    async next(): Promise<IteratorResult<T, unknown>> {
+        const value = [];
+        let done = false;
+        for (const iter of this.iters) {
+            const res = await iter.next();
+            done = res.done || done;
+            value.push(res.value);
+        }
+        return { value, done } as any;
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        for (const iter of this.iters) {
+            await iter.return?.(value);
+        }
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        for (const iter of this.iters) {
+            await iter.throw?.(e);
+        }
+        return { done: true, value: undefined };
+    }
+}
+
+type PendingNext<T> = {
+    promise: PromiseLike<Result<IteratorResult<T, unknown>, unknown>>;
+    settled: boolean;
+};
+
+class MergeStream<T> extends Stream<T> {
+    /** `undefined` marks an input that has ended */
+    iters: (AsyncIterator<T, unknown> | undefined)[];
+    pending: (PendingNext<T> | undefined)[];
+    strategy: SelectStrategy;
+    last: number;
+
+    constructor(strategy: SelectStrategy, ...iters: AsyncIterable<T>[]) {
+        super();
+        this.iters = iters.map(iterable => iterable[Symbol.asyncIterator]());
+        this.pending = this.iters.map(() => undefined);
+        this.strategy = strategy;
+        this.last = -1;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        while (true) {
+            const racing = [];
+            for (const [i, iter] of this.iters.entries()) {
+                if (iter === undefined) continue;
+                if (this.pending[i] === undefined) {
+                    const pending: PendingNext<T> = {
+                        promise: Result.asyncCatch(() => iter.next()),
+                        settled: false,
+                    };
+                    pending.promise.then(() => (pending.settled = true));
+                    this.pending[i] = pending;
+                }
+                racing.push(this.pending[i]!.promise);
+            }
+            if (racing.length === 0) return { done: true, value: undefined };
+            await Promise.race(racing);
+
+            const n = this.iters.length;
+            const start = this.strategy === "fair" ? this.last + 1 : 0;
+            for (let k = 0; k < n; k++) {
+                const i = (start + k) % n;
+                const pending = this.pending[i];
+                if (!pending?.settled) continue;
+
+                this.pending[i] = undefined;
+                const res = await pending.promise;
+                if (!res.ok) {
+                    this.iters[i] = undefined;
+                    await this.return(undefined);
+                    throw res.value;
+                } else if (res.value.done) {
+                    this.iters[i] = undefined;
+                } else {
+                    this.last = i;
+                    return res.value;
+                }
+            }
+        }
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        const iters = this.iters;
+        this.iters = [];
+        this.pending = [];
+        await Promise.all(iters.map(iter => iter?.return?.(value)));
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        const iters = this.iters;
+        this.iters = [];
+        this.pending = [];
+        await Promise.all(iters.map(iter => iter?.throw?.(e)));
+        return { done: true, value: undefined };
+    }
+}
+
+class ChainStream<T> extends Stream<T> {
+    iters: AsyncIterator<T, unknown>[];
+    idx: number;
+
+    constructor(...iters: AsyncIterable<T>[]) {
+        super();
+        this.iters = iters.map(iterable => iterable[Symbol.asyncIterator]());
+        this.idx = 0;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        for (; this.idx < this.iters.length; this.idx++) {
+            const res = await this.iters[this.idx].next();
+            if (!res.done) return res;
+        }
+        return { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        const iters = this.iters.slice(this.idx);
+        this.idx = this.iters.length;
+        for (const iter of iters) {
+            await iter.return?.(value);
+        }
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        const [iter, ...rest] = this.iters.slice(this.idx);
+        this.idx = this.iters.length;
+        await iter?.throw?.(e);
+        for (const iter of rest) {
+            await iter.return?.(undefined);
+        }
+        return { done: true, value: undefined };
+    }
+}
+
+class BufferedStream<T, U> extends Stream<U> {
+    iter: AsyncIterator<T, unknown>;
+    limit: number;
+    f: (x: T) => Awaitable<U>;
+    queue: PromiseLike<Result<U, unknown>>[];
+    /** The `next` call on `iter` that hasn't settled yet */
+    pull: PromiseLike<Result<IteratorResult<T, unknown>, unknown>> | undefined;
+    done: boolean;
+
+    constructor(a: AsyncIterable<T>, limit: number, f: (x: T) => Awaitable<U>) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.limit = Math.max(1, 0 | limit);
+        this.f = f;
+        this.queue = [];
+        this.pull = undefined;
+        this.done = false;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    /** Yields the first task as soon as it's finished, reads the source meanwhile */
+    async next(): Promise<IteratorResult<U, unknown>> {
+        while (true) {
+            if (!this.done && this.queue.length < this.limit) {
+                this.pull ??= Result.asyncCatch(() => this.iter.next());
+            }
+            const head = this.queue[0];
+            const pull = this.pull;
+            if (head === undefined && pull === undefined) {
+                return { done: true, value: undefined };
+            }
+
+            const ready = await Promise.race([
+                ...(head ? [head.then(r => ({ task: r }))] : []),
+                ...(pull ? [pull.then(r => ({ pulled: r }))] : []),
+            ]);
+            if ("task" in ready) {
+                this.queue.shift();
+                return { value: ready.task.throw() };
+            }
+
+            this.pull = undefined;
+            const res = ready.pulled.throw();
+            if (res.done) this.done = true;
+            else
+                this.queue.push(
+                    Result.asyncCatch(async () => this.f(res.value)),
+                );
+        }
+    }
+    async return(value: unknown): Promise<IteratorResult<U, unknown>> {
+        this.queue = [];
+        this.pull = undefined;
+        this.done = true;
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<U, unknown>> {
+        this.queue = [];
+        this.pull = undefined;
+        this.done = true;
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class BufferUnorderedStream<T, U> extends Stream<U> {
+    iter: AsyncIterator<T, unknown>;
+    limit: number;
+    f: (x: T) => Awaitable<U>;
+    pending: Map<number, PromiseLike<[number, Result<U, unknown>]>>;
+    /** The `next` call on `iter` that hasn't settled yet */
+    pull: PromiseLike<Result<IteratorResult<T, unknown>, unknown>> | undefined;
+    id: number;
+    done: boolean;
+
+    constructor(a: AsyncIterable<T>, limit: number, f: (x: T) => Awaitable<U>) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.limit = Math.max(1, 0 | limit);
+        this.f = f;
+        this.pending = new Map();
+        this.pull = undefined;
+        this.id = 0;
+        this.done = false;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    /** Yields whichever task finishes first, reads the source meanwhile */
+    async next(): Promise<IteratorResult<U, unknown>> {
+        while (true) {
+            if (!this.done && this.pending.size < this.limit) {
+                this.pull ??= Result.asyncCatch(() => this.iter.next());
+            }
+            const pull = this.pull;
+            if (this.pending.size === 0 && pull === undefined) {
+                return { done: true, value: undefined };
+            }
+
+            const ready = await Promise.race([
+                ...[...this.pending.values()].map(task =>
+                    task.then(([id, r]) => ({ id, task: r })),
+                ),
+                ...(pull ? [pull.then(r => ({ pulled: r }))] : []),
+            ]);
+            if ("task" in ready) {
+                this.pending.delete(ready.id);
+                return { value: ready.task.throw() };
+            }
+
+            this.pull = undefined;
+            const res = ready.pulled.throw();
+            if (res.done) {
+                this.done = true;
+            } else {
+                const id = this.id++;
+                const task = Result.asyncCatch(async () => this.f(res.value));
+                this.pending.set(
+                    id,
+                    task.then(r => [id, r]),
+                );
+            }
+        }
+    }
+    async return(value: unknown): Promise<IteratorResult<U, unknown>> {
+        this.pending.clear();
+        this.pull = undefined;
+        this.done = true;
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<U, unknown>> {
+        this.pending.clear();
+        this.pull = undefined;
+        this.done = true;
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+/** A sleep that can be cancelled, the promise never settles after cancelling */
+function timer(ms: number, clock: Clock): [Promise<void>, () => void] {
+    let cancel!: () => void;
+    const promise = new Promise<void>(resolve => {
+        cancel = clock.schedule(resolve, ms);
+    });
+    return [promise, cancel];
+}
+
+class ThrottleStream<T> extends Stream<T> {
+    iter: AsyncIterator<T, unknown>;
+    ms: number;
+    clock: Clock;
+    last: number | undefined;
+
+    constructor(a: AsyncIterable<T>, ms: number, clock: Clock) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.ms = ms;
+        this.clock = clock;
+        this.last = undefined;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        while (true) {
+            const res = await this.iter.next();
+            if (res.done) return res;
+
+            const now = this.clock.now();
+            if (this.last === undefined || now - this.last >= this.ms) {
+                this.last = now;
+                return res;
+            }
+        }
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        return (await this.iter.return?.(value)) ?? { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        return (await this.iter.throw?.(e)) ?? { done: true, value: undefined };
+    }
+}
+
+class DebounceStream<T> extends Stream<T> {
+    iter: AsyncIterator<T, unknown>;
+    ms: number;
+    clock: Clock;
+    pending:
+        | PromiseLike<Result<IteratorResult<T, unknown>, unknown>>
+        | undefined;
+    latest: Opt<T>;
+    done: boolean;
+
+    constructor(a: AsyncIterable<T>, ms: number, clock: Clock) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.ms = ms;
+        this.clock = clock;
+        this.pending = undefined;
+        this.latest = None;
+        this.done = false;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        while (!this.done) {
+            this.pending ??= Result.asyncCatch(() => this.iter.next());
+
+            let res;
+            if (this.latest.some) {
+                const [slept, cancel] = timer(this.ms, this.clock);
+                res = await Promise.race([this.pending, slept]);
+                if (res === undefined) {
+                    const value = this.latest.value;
+                    this.latest = None;
+                    return { value };
+                }
+                cancel();
+            } else {
+                res = await this.pending;
+            }
+            this.pending = undefined;
+
+            const next = res.throw();
+            if (!next.done) {
+                this.latest = Some(next.value);
+            } else {
+                this.done = true;
+                if (this.latest.some) {
+                    const value = this.latest.value;
+                    this.latest = None;
+                    return { value };
+                }
+            }
+        }
+        return { done: true, value: undefined };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        this.done = true;
+        this.pending = undefined;
+        this.latest = None;
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.done = true;
+        this.pending = undefined;
+        this.latest = None;
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class TimeoutStream<T> extends Stream<Result<T, TimeoutError>> {
+    iter: AsyncIterator<T, unknown>;
+    ms: number;
+    clock: Clock;
+    pending:
+        | PromiseLike<Result<IteratorResult<T, unknown>, unknown>>
+        | undefined;
+
+    constructor(a: AsyncIterable<T>, ms: number, clock: Clock) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.ms = ms;
+        this.clock = clock;
+        this.pending = undefined;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<Result<T, TimeoutError>, unknown>> {
+        this.pending ??= Result.asyncCatch(() => this.iter.next());
+
+        const [slept, cancel] = timer(this.ms, this.clock);
+        const res = await Promise.race([this.pending, slept]);
+        if (res === undefined) return { value: Err(new TimeoutError(this.ms)) };
+        cancel();
+        this.pending = undefined;
+
+        const next = res.throw();
+        return next.done ? next : { value: Ok(next.value) };
+    }
+    async return(
+        value: unknown,
+    ): Promise<IteratorResult<Result<T, TimeoutError>, unknown>> {
+        this.pending = undefined;
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(
+        e: unknown,
+    ): Promise<IteratorResult<Result<T, TimeoutError>, unknown>> {
+        this.pending = undefined;
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class DelayStream<T> extends Stream<T> {
+    iter: AsyncIterator<T, unknown>;
+    ms: number;
+    clock: Clock;
+    /** The results read so far, with the time each is due */
+    queue: [number, Result<IteratorResult<T, unknown>, unknown>][];
+    /** Whether the source is being read in the background */
+    reading: boolean;
+    done: boolean;
+    /** Resolves a `next` call that waits for the source */
+    wake: (() => void) | undefined;
+
+    constructor(a: AsyncIterable<T>, ms: number, clock: Clock) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.ms = ms;
+        this.clock = clock;
+        this.queue = [];
+        this.reading = false;
+        this.done = false;
+        this.wake = undefined;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    /** Reads ahead so every item is due `ms` after it arrived, not after the previous one was yielded */
+    async read() {
+        while (!this.done) {
+            const res = await Result.asyncCatch(() => this.iter.next());
+            if (this.done) return;
+
+            const end = !res.ok || !!res.value.done;
+            this.queue.push([this.clock.now() + (end ? 0 : this.ms), res]);
+            this.wake?.();
+            this.wake = undefined;
+            if (end) return;
+        }
+    }
+    async next(): Promise<IteratorResult<T, unknown>> {
+        if (!this.reading) {
+            this.reading = true;
+            this.read();
+        }
+        while (!this.done && this.queue.length === 0) {
+            await new Promise<void>(resolve => (this.wake = resolve));
+        }
+        const item = this.queue.shift();
+        if (item === undefined) return { done: true, value: undefined };
+
+        const [due, res] = item;
+        const wait = due - this.clock.now();
+        if (wait > 0) await sleep(wait, this.clock);
+        if (!res.ok || res.value.done) {
+            this.done = true;
+            this.queue = [];
+        }
+        return res.throw();
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        this.done = true;
+        this.queue = [];
+        this.wake?.();
+        return (await this.iter.return?.(value)) ?? { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.done = true;
+        this.queue = [];
+        this.wake?.();
+        return (await this.iter.throw?.(e)) ?? { done: true, value: undefined };
+    }
+}
+
+class SampleStream<T> extends Stream<T> {
+    iter: AsyncIterator<T, unknown>;
+    ms: number;
+    clock: Clock;
+    pending:
+        | PromiseLike<Result<IteratorResult<T, unknown>, unknown>>
+        | undefined;
+    latest: Opt<T>;
+    tick: number | undefined;
+
+    constructor(a: AsyncIterable<T>, ms: number, clock: Clock) {
+        super();
+        this.iter = a[Symbol.asyncIterator]();
+        this.ms = ms;
+        this.clock = clock;
+        this.pending = undefined;
+        this.latest = None;
+        this.tick = undefined;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<T, unknown>> {
+        this.tick ??= this.clock.now() + this.ms;
+        while (true) {
+            this.pending ??= Result.asyncCatch(() => this.iter.next());
+
+            const [slept, cancel] = timer(
+                this.tick - this.clock.now(),
+                this.clock,
+            );
+            const res = await Promise.race([this.pending, slept]);
+            if (res === undefined) {
+                this.tick += this.ms;
+                if (this.latest.some) {
+                    const value = this.latest.value;
+                    this.latest = None;
+                    return { value };
+                }
+                continue;
+            }
+            cancel();
+            this.pending = undefined;
+
+            const next = res.throw();
+            if (next.done) return next;
+            this.latest = Some(next.value);
+        }
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        this.pending = undefined;
+        this.latest = None;
+        await this.iter.return?.(value);
+        return { done: true, value };
+    }
+    async throw(e: unknown): Promise<IteratorResult<T, unknown>> {
+        this.pending = undefined;
+        this.latest = None;
+        await this.iter.throw?.(e);
+        return { done: true, value: undefined };
+    }
+}
+
+class IntervalStream extends Stream<number> {
+    ms: number;
+    clock: Clock;
+    start: number | undefined;
+    ctr: number;
+    done: boolean;
+
+    constructor(ms: number, clock: Clock) {
+        super();
+        this.ms = ms;
+        this.clock = clock;
+        this.start = undefined;
+        this.ctr = 0;
+        this.done = false;
+    }
+
+    [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<number, unknown>> {
+        if (this.done) return { done: true, value: undefined };
+
+        this.start ??= this.clock.now();
+        const ctr = this.ctr++;
+        await sleep(
+            this.start + this.ctr * this.ms - this.clock.now(),
+            this.clock,
+        );
+        return { value: ctr };
+    }
+    async return(value: unknown): Promise<IteratorResult<number, unknown>> {
+        this.done = true;
+        return { done: true, value };
+    }
+    async throw(_e: unknown): Promise<IteratorResult<number, unknown>> {
+        this.done = true;
+        return { done: true, value: undefined };
+    }
+}
+
+class OnceStream<T> extends Stream<T> {
+    done: boolean;
+    value: T;
+
+    constructor(value: T) {
+        super();
+        this.done = false;
+        this.value = value;
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<T, unknown> {
+        return this;
+    }
+    async next(): Promise<IteratorResult<T, unknown>> {
+        return { value: this.value, done: this.done };
+    }
+    async return(value: unknown): Promise<IteratorResult<T, unknown>> {
+        return { value, done: true };
+    }
+    async throw(_e: unknown): Promise<IteratorResult<T, unknown>> {
+        return { done: true, value: undefined };
+    }
+}
+
+/** Reads a `ReadableStream` or a Node.js `Readable`, `return` cancels or destroys it */
+function fromReadable<T>(readable: ReadableStream<T>): Stream<T>;
+function fromReadable<T = any>(readable: NodeReadable): Stream<T>;
+function fromReadable<T>(
+    readable: ReadableStream<T> | NodeReadable,
+): Stream<T> {
+    return "getReader" in readable
+        ? new ReadableStreamWrapper(readable)
+        : new NodeReadableWrapper(readable);
+}
+
 export const stream = <T>(
     ...args: ConstructorParameters<typeof StreamWrapper<T>>
 ): StreamWrapper<T> => {
@@ -392,7 +1719,22 @@ stream.Stream = Stream;
 stream.zip = <T extends any[]>(
     ...iters: ConstructorParameters<typeof ZipStream<T>>
 ) => new ZipStream<T>(...iters);
+stream.merge = <T extends any[]>(
+    ...iters: { [I in keyof T]: AsyncIterable<T[I]> }
+) => new MergeStream<T[number]>("fair", ...iters);
+stream.select = <T, U>(
+    a: AsyncIterable<T>,
+    b: AsyncIterable<U>,
+    strategy: SelectStrategy = "fair",
+) => new MergeStream<T | U>(strategy, a, b);
+stream.chain = <T extends any[]>(
+    ...iters: { [I in keyof T]: AsyncIterable<T[I]> }
+) => new ChainStream<T[number]>(...iters);
 stream.once = <T>(value: T) => new OnceStream(value);
+stream.fromReadable = fromReadable;
+/** Yields `0, 1, 2, ...`, one number every `ms` */
+stream.interval = (ms: number, clock: Clock = systemClock) =>
+    new IntervalStream(ms, clock);
 stream.never = new (class extends Stream<never> {
     construtor() {}
 
@@ -1,3 +1,5 @@
+export type Awaitable<T> = PromiseLike<T> | Awaited<T>;
+
 export type Range<T extends any[], N extends number = never> = T extends [
     ...infer Rest,
     any,
@@ -32,3 +34,14 @@ export type If<O extends boolean, T, F, E = never> = Match<
     [[true, T], [false, F]],
     E
 >;
+
+export type Tuple<T, N extends number, R extends T[] = []> = number extends N
+    ? T[]
+    : `${N}` extends
+          | `-${string}`
+          | `${string}.${string}`
+          | `${string}e${string}`
+    ? T[]
+    : R["length"] extends N
+    ? R
+    : Tuple<T, N, [...R, T]>;
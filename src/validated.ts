@@ -0,0 +1,158 @@
+import iter, { Iter } from "./iter.js";
+import { Result, Ok, Err } from "./result.js";
+import { Opt, Some, None } from "./option.js";
+import type { If } from "./utils.js";
+
+export type Valid<T> = ValidatedPart<true, T, never>;
+export type Invalid<E> = ValidatedPart<false, never, E>;
+/** Like `Result`, but combining `Invalid`s keeps the errors of all of them */
+export type Validated<T, E> = Valid<T> | Invalid<E>;
+
+class ValidatedPart<O extends boolean, T, E> {
+    /** A boolean that asserts that this value's either Valid or Invalid */
+    readonly valid: If<O, true, false>;
+    /** The value, or every error when Invalid */
+    readonly value: If<O, T, E[]>;
+
+    /** INTERNAL DETAIL */
+    constructor(valid: If<O, true, false>, value: If<O, T, E[]>) {
+        this.valid = valid;
+        this.value = value;
+    }
+
+    validValue<T, E>(this: Validated<T, E>): Opt<T> {
+        return this.valid ? Some(this.value) : None;
+    }
+    errors<T, E>(this: Validated<T, E>): E[] {
+        return this.valid ? [] : this.value;
+    }
+
+    /** Collects the errors of both when both are Invalid */
+    zip<T, U, E>(
+        this: Validated<T, E>,
+        o: Validated<U, E>,
+    ): Validated<[T, U], E> {
+        return Validated.zip(this, o);
+    }
+    /** Short-circuits like `Result.and`, use `zip` to keep every error */
+    and<T, U, E>(
+        this: Validated<T, E>,
+        o: Validated<U, E> | ((x: T) => Validated<U, E>),
+    ): Validated<U, E> {
+        if (!this.valid) return this;
+        return typeof o === "function" ? o(this.value) : o;
+    }
+    or<T, E>(
+        this: Validated<T, E>,
+        o: Validated<T, E> | ((errors: E[]) => Validated<T, E>),
+    ): Validated<T, E> {
+        if (this.valid) return this;
+        return typeof o === "function" ? o(this.value) : o;
+    }
+
+    map<T, E, U>(this: Validated<T, E>, f: (x: T) => U): Validated<U, E> {
+        return this.valid ? Valid(f(this.value)) : this;
+    }
+    /** Maps every error */
+    mapErr<T, E, F>(this: Validated<T, E>, f: (e: E) => F): Validated<T, F> {
+        return this.valid
+            ? this
+            : new ValidatedPart<false, never, F>(false, this.value.map(f));
+    }
+
+    unwrap<T, E>(
+        this: Validated<T, E>,
+        msg: string = "Failed to unwrap Validated",
+    ): T {
+        if (this.valid) return this.value;
+        else throw new AggregateError(this.value, msg);
+    }
+    unwrapErr<T, E>(
+        this: Validated<T, E>,
+        msg: string = "Failed to unwrap Validated's errors",
+    ): E[] {
+        if (!this.valid) return this.value;
+        else throw new Error(msg);
+    }
+    unwrapOr<T, E>(this: Validated<T, E>, def: T): T {
+        return this.valid ? this.value : def;
+    }
+    unwrapOrElse<T, E>(this: Validated<T, E>, def: (errors: E[]) => T): T {
+        return this.valid ? this.value : def(this.value);
+    }
+
+    match<T, E, A, B>(
+        this: Validated<T, E>,
+        arms: { Valid: (x: T) => A; Invalid: (errors: E[]) => B },
+    ): A | B {
+        return this.valid ? arms.Valid(this.value) : arms.Invalid(this.value);
+    }
+
+    toResult<T, E>(this: Validated<T, E>): Result<T, E[]> {
+        return this.valid ? Ok(this.value) : Err(this.value);
+    }
+}
+
+export function Valid<T>(value: T): Valid<T> {
+    return new ValidatedPart(true, value);
+}
+export function Invalid<E>(error: E, ...errors: E[]): Invalid<E> {
+    return new ValidatedPart<false, never, E>(false, [error, ...errors]);
+}
+
+/** Valid when every input is, otherwise Invalid with the errors of all of them */
+function all<T extends any[], E>(validated: {
+    [I in keyof T]: Validated<T[I], E>;
+}): Validated<T, E> {
+    const values = [];
+    const errors: E[] = [];
+    for (const v of validated as Validated<unknown, E>[]) {
+        if (v.valid) values.push(v.value);
+        else errors.push(...v.value);
+    }
+    return errors.length === 0
+        ? Valid(values as T)
+        : new ValidatedPart<false, never, E>(false, errors);
+}
+
+/** Collects the Valid values, or every error if any is Invalid */
+function fromIter<T, E>(iterable: Iterable<Validated<T, E>>): Validated<T[], E>;
+function fromIter<K, V, E>(
+    iterable: Iterable<Validated<[K, V], E>>,
+    c: MapConstructor,
+): Validated<Map<K, V>, E>;
+function fromIter<T, E>(
+    iterable: Iterable<Validated<T, E>>,
+    c: SetConstructor,
+): Validated<Set<T>, E>;
+function fromIter<T, E, C>(
+    iterable: Iterable<Validated<T, E>>,
+    c: { new (iter: Iter<T>): C },
+): Validated<C, E>;
+function fromIter<T, E, C>(
+    iterable: Iterable<Validated<T, E>>,
+    c?: { new (iter: Iter<T>): C },
+): Validated<C | T[], E> {
+    return c === undefined
+        ? iter(iterable).collectValidated()
+        : iter(iterable).collectValidated(c);
+}
+
+export const Validated = {
+    Valid,
+    Invalid,
+    is(x: unknown): x is Validated<unknown, unknown> {
+        return x instanceof ValidatedPart;
+    },
+    fromResult<T, E>(res: Result<T, E>): Validated<T, E> {
+        return res.ok ? Valid(res.value) : Invalid(res.value);
+    },
+    all,
+    zip<T extends any[], E>(
+        ...validated: { [I in keyof T]: Validated<T[I], E> }
+    ): Validated<T, E> {
+        return all<T, E>(validated);
+    },
+    fromIter,
+} as const;
+export default Validated;
@@ -0,0 +1,108 @@
+import iter, { Iter } from "./iter.js";
+import { Opt, Some, None } from "./option.js";
+import { compare, type Comparator } from "./cmp.js";
+
+/** A double-ended queue backed by a growable ring buffer */
+export class VecDeque<T> implements Iterable<T> {
+    /** Holds the values from `head` on, wrapping around the end */
+    buf: (T | undefined)[];
+    head: number;
+    size: number;
+
+    constructor();
+    constructor(values?: Iterable<T> | null);
+    constructor(values?: Iterable<T> | null) {
+        this.buf = [];
+        this.head = 0;
+        this.size = 0;
+        if (values) for (const x of values) this.pushBack(x);
+    }
+
+    /** The index into `buf` of the `i`th value */
+    private slot(i: number): number {
+        return (this.head + i) % this.buf.length;
+    }
+    private grow() {
+        const buf = new Array<T | undefined>(Math.max(4, 2 * this.buf.length));
+        for (let i = 0; i < this.size; i++) buf[i] = this.buf[this.slot(i)];
+        this.buf = buf;
+        this.head = 0;
+    }
+
+    pushBack(value: T) {
+        if (this.size === this.buf.length) this.grow();
+        this.buf[this.slot(this.size)] = value;
+        this.size++;
+    }
+    pushFront(value: T) {
+        if (this.size === this.buf.length) this.grow();
+        this.head = (this.head + this.buf.length - 1) % this.buf.length;
+        this.buf[this.head] = value;
+        this.size++;
+    }
+    popFront(): Opt<T> {
+        if (this.size === 0) return None;
+        const value = this.buf[this.head] as T;
+        this.buf[this.head] = undefined;
+        this.head = this.slot(1);
+        this.size--;
+        return Some(value);
+    }
+    popBack(): Opt<T> {
+        if (this.size === 0) return None;
+        const i = this.slot(this.size - 1);
+        const value = this.buf[i] as T;
+        this.buf[i] = undefined;
+        this.size--;
+        return Some(value);
+    }
+
+    /** Negative indices count from the back */
+    get(i: number): Opt<T> {
+        if (i < 0) i += this.size;
+        return 0 <= i && i < this.size
+            ? Some(this.buf[this.slot(i)] as T)
+            : None;
+    }
+    /** Returns the replaced value, `None` if `i` is out of bounds */
+    set(i: number, value: T): Opt<T> {
+        if (i < 0) i += this.size;
+        if (i < 0 || i >= this.size) return None;
+        const old = this.buf[this.slot(i)] as T;
+        this.buf[this.slot(i)] = value;
+        return Some(old);
+    }
+    front(): Opt<T> {
+        return this.get(0);
+    }
+    back(): Opt<T> {
+        return this.get(-1);
+    }
+    clear() {
+        this.buf = [];
+        this.head = 0;
+        this.size = 0;
+    }
+
+    values(): Iter<T> {
+        return iter(
+            (function* (deque: VecDeque<T>) {
+                for (let i = 0; i < deque.size; i++)
+                    yield deque.buf[deque.slot(i)] as T;
+            })(this),
+        );
+    }
+    /** Empties the deque right away, the values stay in the returned `Iter` */
+    drain(): Iter<T> {
+        const values = [...this.values()];
+        this.clear();
+        return iter(values);
+    }
+    /** Empties the deque and sorts its values, see `compare` */
+    intoSorted(cmp: Comparator<T> = compare): Iter<T> {
+        return iter([...this.drain()].sort(cmp));
+    }
+    [Symbol.iterator](): Iter<T> {
+        return this.values();
+    }
+}